@@ -0,0 +1,177 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { ConfigValidator } from './utils/config-validator.js';
+import { EmployeeIdentifier } from './utils/employee-identifier.js';
+import { EmployeeImporter, IMPORT_FORMATS, ImportFormat } from './utils/employee-importer.js';
+import { ProfileStores } from './utils/profile-store.js';
+import { EXPORT_FORMATS, ExportFormat, ProgressExporter } from './utils/progress-export.js';
+import { StallDetector } from './utils/stall-detector.js';
+
+type CliCommand = (args: string[]) => Promise<number>;
+
+/**
+ * Command line entry points (`node build/index.js <command>`) for step
+ * authors and admins. Each command returns the process exit code.
+ */
+export class OnboardingCli {
+  private static commands: Record<string, CliCommand> = {
+    validate: args => OnboardingCli.validate(args),
+    stalled: args => OnboardingCli.stalled(args),
+    migrate: args => OnboardingCli.migrate(args),
+    import: args => OnboardingCli.importEmployees(args),
+    export: args => OnboardingCli.exportProgress(args),
+  };
+
+  static isCommand(name?: string): boolean {
+    return !!name && name in this.commands;
+  }
+
+  static async run(argv: string[]): Promise<number> {
+    const [name, ...args] = argv;
+    return this.commands[name](args);
+  }
+
+  /**
+   * Lint config/steps; exits 1 on errors (or on warnings with --strict)
+   */
+  private static async validate(args: string[]): Promise<number> {
+    const strict = args.includes('--strict');
+    const report = await ConfigValidator.validate();
+
+    console.log(ConfigValidator.formatReport(report));
+
+    if (report.errorCount > 0 || (strict && report.warningCount > 0)) {
+      return 1;
+    }
+    return 0;
+  }
+
+  /**
+   * Report stalled onboardings: stalled [--buddy <email>] [--department <name>] [--threshold <factor>]
+   */
+  private static async stalled(args: string[]): Promise<number> {
+    const threshold = this.getOption(args, '--threshold');
+    if (threshold !== undefined && !(parseFloat(threshold) > 0)) {
+      console.error('--threshold must be a positive number');
+      return 1;
+    }
+
+    const filter = {
+      buddyEmail: this.getOption(args, '--buddy'),
+      department: this.getOption(args, '--department'),
+    };
+    const profiles = await EmployeeIdentifier.queryProfiles(filter);
+    const stalled = await StallDetector.findStalled(profiles, {
+      ...filter,
+      threshold: threshold !== undefined ? parseFloat(threshold) : undefined,
+    });
+
+    console.log(StallDetector.formatReport(stalled));
+    return 0;
+  }
+
+  /**
+   * Copy every profile between stores: migrate [--from json] [--to sqlite] [--overwrite]
+   */
+  private static async migrate(args: string[]): Promise<number> {
+    const from = ProfileStores.parseKind(this.getOption(args, '--from') || 'json');
+    const to = ProfileStores.parseKind(this.getOption(args, '--to') || 'sqlite');
+    if (from === to) {
+      console.error('--from and --to must be different storage types');
+      return 1;
+    }
+
+    const dataPath = EmployeeIdentifier.getDataPath();
+    const source = await ProfileStores.open(from, dataPath);
+    const target = await ProfileStores.open(to, dataPath);
+    const overwrite = args.includes('--overwrite');
+    let imported = 0;
+    let skipped = 0;
+
+    try {
+      for (const profile of await source.list()) {
+        if (!overwrite && await target.get(profile.email)) {
+          console.log(`Skipping ${profile.email}: already in ${to} storage (use --overwrite to replace)`);
+          skipped++;
+          continue;
+        }
+        await target.save(profile);
+        imported++;
+      }
+    } finally {
+      await source.close();
+      await target.close();
+    }
+
+    console.log(`Migrated ${imported} profile(s) from ${from} to ${to} in ${dataPath}${skipped ? `, skipped ${skipped}` : ''}.`);
+    return 0;
+  }
+
+  /**
+   * Pre-create profiles from an HR roster: import <file> [--format csv|json] [--dry-run];
+   * exits 1 when any row is invalid
+   */
+  private static async importEmployees(args: string[]): Promise<number> {
+    const file = args[0];
+    if (!file || file.startsWith('--')) {
+      console.error('Usage: import <file> [--format csv|json] [--dry-run]');
+      return 1;
+    }
+
+    // The file extension decides the format unless --format says otherwise
+    const extension = path.extname(file).slice(1).toLowerCase();
+    const format = this.getOption(args, '--format') || (IMPORT_FORMATS.includes(extension as ImportFormat) ? extension : undefined);
+    if (format && !IMPORT_FORMATS.includes(format as ImportFormat)) {
+      console.error(`--format must be one of: ${IMPORT_FORMATS.join(', ')}`);
+      return 1;
+    }
+
+    const report = await EmployeeImporter.import(await fs.readFile(file, 'utf-8'), {
+      format: format as ImportFormat | undefined,
+      dryRun: args.includes('--dry-run'),
+    });
+
+    console.log(EmployeeImporter.formatReport(report));
+    return report.invalid > 0 ? 1 : 0;
+  }
+
+  /**
+   * Write the per-step progress table: export [--format csv|json|markdown] [--from <date>] [--to <date>]
+   * [--department <name>] [--buddy <email>] [--output <file>]
+   */
+  private static async exportProgress(args: string[]): Promise<number> {
+    const output = this.getOption(args, '--output');
+    // Like import, the file extension picks the format unless --format is given
+    const extension = output ? path.extname(output).slice(1).toLowerCase().replace(/^md$/, 'markdown') : '';
+    const format = this.getOption(args, '--format')
+      || (EXPORT_FORMATS.includes(extension as ExportFormat) ? extension : 'csv');
+    if (!EXPORT_FORMATS.includes(format as ExportFormat)) {
+      console.error(`--format must be one of: ${EXPORT_FORMATS.join(', ')}`);
+      return 1;
+    }
+
+    const data = await ProgressExporter.collect({
+      from: this.getOption(args, '--from'),
+      to: this.getOption(args, '--to'),
+      department: this.getOption(args, '--department'),
+      buddyEmail: this.getOption(args, '--buddy'),
+    });
+    const text = ProgressExporter.format(data, format as ExportFormat);
+
+    if (output) {
+      await fs.writeFile(output, text, 'utf-8');
+      console.error(`Exported ${data.rows.length} row(s) for ${data.employees} employee(s) to ${output}`);
+    } else {
+      process.stdout.write(text);
+    }
+    return 0;
+  }
+
+  /**
+   * Read "--name value" from the argument list
+   */
+  private static getOption(args: string[], name: string): string | undefined {
+    const index = args.indexOf(name);
+    return index >= 0 && index + 1 < args.length ? args[index + 1] : undefined;
+  }
+}
@@ -0,0 +1,188 @@
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { randomUUID } from 'crypto';
+import * as http from 'http';
+import { AuthenticationError, Caller, CallerAuth } from './utils/caller-auth.js';
+
+/**
+ * One MCP server instance, connected to a single session's transport
+ */
+export interface McpSessionServer {
+  connect(transport: StreamableHTTPServerTransport): Promise<void>;
+  close(): Promise<void>;
+}
+
+export interface HttpServerOptions {
+  port: number;
+  host: string;
+}
+
+interface Session {
+  transport: StreamableHTTPServerTransport;
+  server: McpSessionServer;
+  /** The caller who opened the session; nobody else may use it */
+  email: string;
+}
+
+const MCP_PATH = '/mcp';
+const DEFAULT_PORT = 3000;
+const DEFAULT_HOST = '127.0.0.1';
+const MAX_BODY_BYTES = 1024 * 1024;
+
+/**
+ * Serve the MCP server to the whole team over Streamable HTTP at /mcp. Every
+ * request is authenticated and the caller is passed to the tool handlers.
+ */
+export class OnboardingHttpServer {
+  private sessions = new Map<string, Session>();
+  private httpServer: http.Server;
+
+  constructor(private createServer: () => McpSessionServer, private options: HttpServerOptions) {
+    this.httpServer = http.createServer((req, res) => {
+      this.handle(req, res).catch(error => {
+        console.error('[HTTP Error]', error);
+        if (!res.headersSent) {
+          this.sendError(res, 500, 'Internal server error');
+        }
+      });
+    });
+  }
+
+  /**
+   * HTTP mode is chosen with --http (plus optional --port/--host) or
+   * ONBOARDING_TRANSPORT=http; returns null for stdio
+   */
+  static getOptions(argv: string[], env: NodeJS.ProcessEnv = process.env): HttpServerOptions | null {
+    if (!argv.includes('--http') && env.ONBOARDING_TRANSPORT !== 'http') {
+      return null;
+    }
+
+    const option = (name: string) => {
+      const index = argv.indexOf(name);
+      return index >= 0 ? argv[index + 1] : undefined;
+    };
+    const port = Number(option('--port') || env.ONBOARDING_HTTP_PORT || DEFAULT_PORT);
+    if (!Number.isInteger(port) || port < 0 || port > 65535) {
+      throw new Error(`Invalid HTTP port: ${option('--port') || env.ONBOARDING_HTTP_PORT}`);
+    }
+
+    return { port, host: option('--host') || env.ONBOARDING_HTTP_HOST || DEFAULT_HOST };
+  }
+
+  async listen(): Promise<void> {
+    await new Promise<void>((resolve, reject) => {
+      this.httpServer.once('error', reject);
+      this.httpServer.listen(this.options.port, this.options.host, () => resolve());
+    });
+
+    const address = this.httpServer.address();
+    const port = typeof address === 'object' && address ? address.port : this.options.port;
+    console.error(`Employee Onboarding MCP server listening on http://${this.options.host}:${port}${MCP_PATH}`);
+  }
+
+  async close(): Promise<void> {
+    for (const session of this.sessions.values()) {
+      await session.server.close();
+    }
+    this.sessions.clear();
+    await new Promise<void>(resolve => this.httpServer.close(() => resolve()));
+  }
+
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const url = new URL(req.url || '/', 'http://localhost');
+    if (url.pathname !== MCP_PATH) {
+      this.sendError(res, 404, `Not found; the MCP endpoint is ${MCP_PATH}`);
+      return;
+    }
+
+    let caller: Caller;
+    try {
+      caller = await CallerAuth.authenticate(req.headers);
+    } catch (error) {
+      if (error instanceof AuthenticationError) {
+        res.setHeader('WWW-Authenticate', 'Bearer');
+        this.sendError(res, 401, error.message);
+        return;
+      }
+      throw error;
+    }
+
+    const credential = req.headers.authorization || `header:${caller.email}`;
+    const authedReq = Object.assign(req, { auth: CallerAuth.toAuthInfo(caller, credential) });
+
+    let body: unknown;
+    if (req.method === 'POST') {
+      try {
+        body = await this.readJson(req);
+      } catch (error: any) {
+        this.sendError(res, error.statusCode || 400, error.message);
+        return;
+      }
+    }
+
+    const sessionId = req.headers['mcp-session-id'];
+    if (typeof sessionId === 'string') {
+      const session = this.sessions.get(sessionId);
+      if (!session) {
+        this.sendError(res, 404, 'Unknown or expired session; initialize a new one');
+        return;
+      }
+      if (session.email !== caller.email) {
+        this.sendError(res, 403, 'This session belongs to another user');
+        return;
+      }
+      await session.transport.handleRequest(authedReq, res, body);
+      return;
+    }
+
+    if (req.method !== 'POST' || !isInitializeRequest(body)) {
+      this.sendError(res, 400, 'Missing mcp-session-id header; send an initialize request first');
+      return;
+    }
+
+    const server = this.createServer();
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: id => {
+        this.sessions.set(id, { transport, server, email: caller.email });
+      },
+    });
+    transport.onclose = () => {
+      if (transport.sessionId) {
+        this.sessions.delete(transport.sessionId);
+      }
+    };
+
+    await server.connect(transport);
+    await transport.handleRequest(authedReq, res, body);
+  }
+
+  private readJson(req: http.IncomingMessage): Promise<unknown> {
+    return new Promise((resolve, reject) => {
+      const chunks: Buffer[] = [];
+      let size = 0;
+      req.on('data', (chunk: Buffer) => {
+        size += chunk.length;
+        if (size > MAX_BODY_BYTES) {
+          reject(Object.assign(new Error('Request body too large'), { statusCode: 413 }));
+          req.destroy();
+          return;
+        }
+        chunks.push(chunk);
+      });
+      req.on('end', () => {
+        try {
+          resolve(JSON.parse(Buffer.concat(chunks).toString('utf-8')));
+        } catch (error) {
+          reject(new Error('Request body is not valid JSON'));
+        }
+      });
+      req.on('error', reject);
+    });
+  }
+
+  private sendError(res: http.ServerResponse, status: number, message: string): void {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ jsonrpc: '2.0', error: { code: -32000, message }, id: null }));
+  }
+}
@@ -1,21 +1,55 @@
 #!/usr/bin/env node
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
 import {
   CallToolRequestSchema,
   ErrorCode,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ListToolsRequestSchema,
   McpError,
+  ReadResourceRequestSchema,
 } from '@modelcontextprotocol/sdk/types.js';
 
-import { EmployeeIdentifier, EmployeeProfile } from './utils/employee-identifier.js';
-import { ConfigParser, OnboardingStep } from './utils/config-parser.js';
+import { EmployeeIdentifier, EmployeeProfile, ProfileEvent } from './utils/employee-identifier.js';
+import { IdentityAmbiguousError, IdentityResolver } from './utils/identity-resolver.js';
+import { BASE_TRACK, ConfigParser, OnboardingStep } from './utils/config-parser.js';
+import { OnboardingPrompts } from './utils/onboarding-prompts.js';
+import { ProfileMerger } from './utils/profile-merger.js';
+import { ResourceCatalog } from './utils/resource-catalog.js';
+import { StepGraph } from './utils/step-graph.js';
+import { SearchIndex } from './utils/search-index.js';
+import { StepSections } from './utils/step-sections.js';
+import { ConfigValidator } from './utils/config-validator.js';
+import { ONBOARDING_STATUSES, OnboardingStatus, ProgressSummary } from './utils/progress-summary.js';
+import { StallDetector } from './utils/stall-detector.js';
+import { CompletionChecker } from './utils/completion-checks.js';
+import { CompletionOutcome, OUTPUT_SCHEMAS, ToolOutput } from './utils/tool-output.js';
+import { ChecklistItem, ChecklistParser } from './utils/checklist-parser.js';
+import { OnboardingCli } from './cli.js';
+import { HttpServerOptions, OnboardingHttpServer } from './http-server.js';
+import { AccessDeniedError, AccessPolicy } from './utils/access-policy.js';
+import { Caller, CallerAuth } from './utils/caller-auth.js';
+import { Role, RoleConfig } from './utils/role-config.js';
+import { EmployeeImporter, IMPORT_FORMATS, ImportFormat } from './utils/employee-importer.js';
+import { EXPORT_FORMATS, ExportFilter, ExportFormat, ProgressExporter } from './utils/progress-export.js';
+import { ANALYTICS_GROUPINGS, AnalyticsGrouping, OnboardingAnalytics } from './utils/onboarding-analytics.js';
+
+interface GetCurrentStepArgs {
+  email?: string;
+  /** Only the step's summary and this section */
+  section?: string;
+}
 
 interface StartOnboardingArgs {
   email?: string;
   name?: string;
   buddyEmail?: string;
   department?: string;
+  track?: string;
 }
 
 interface CompleteStepArgs {
@@ -29,28 +63,160 @@ interface GetProgressArgs {
   email?: string;
 }
 
+interface CompleteSubtaskArgs {
+  subtaskIds: string[];
+  stepId?: number;
+  email?: string;
+  notes?: string;
+  undo?: boolean;
+}
+
+interface SkipStepArgs {
+  stepId?: number;
+  email?: string;
+  reason: string;
+}
+
+interface DeferStepArgs {
+  stepId?: number;
+  email?: string;
+  reason?: string;
+}
+
+interface ReopenStepArgs {
+  stepId: number;
+  email?: string;
+  reason: string;
+  cascade?: boolean;
+}
+
+interface ListOnboardeesArgs {
+  buddyEmail?: string;
+  department?: string;
+  status?: OnboardingStatus;
+  track?: string;
+}
+
+interface BuddyOverviewArgs {
+  buddyEmail?: string;
+  department?: string;
+  status?: OnboardingStatus;
+}
+
+interface FindStalledArgs {
+  buddyEmail?: string;
+  department?: string;
+  threshold?: number;
+}
+
+interface MergeProfilesArgs {
+  sourceEmail: string;
+  targetEmail: string;
+}
+
+interface RecoverProfileArgs {
+  email: string;
+}
+
+interface ImportEmployeesArgs {
+  content: string;
+  format?: ImportFormat;
+  dryRun?: boolean;
+}
+
+interface ExportProgressArgs extends ExportFilter {
+  format?: ExportFormat;
+}
+
+interface GetAnalyticsArgs {
+  track?: string;
+  department?: string;
+  buddyEmail?: string;
+  groupBy?: AnalyticsGrouping;
+}
+
+interface GetAllStepsArgs {
+  track?: string;
+}
+
+interface SearchOnboardingArgs {
+  query: string;
+  track?: string;
+  limit?: number;
+}
+
+const DEFAULT_SEARCH_LIMIT = 10;
+const MAX_SEARCH_LIMIT = 50;
+
 
 class OnboardingMCPServer {
   private server: Server;
 
-  constructor() {
+  constructor(private transport: 'stdio' | 'http' = 'stdio') {
     this.server = new Server(
       {
         name: 'employee-onboarding-mcp',
         version: '1.0.0',
+      },
+      {
         capabilities: {
           tools: {},
+          resources: {},
+          prompts: {},
         },
       }
     );
 
     this.setupToolHandlers();
+    this.setupResourceHandlers();
+    this.setupPromptHandlers();
     
     // Error handling
     this.server.onerror = (error) => console.error('[MCP Error]', error);
-    process.on('SIGINT', async () => {
-      await this.server.close();
-      process.exit(0);
+  }
+
+  /**
+   * Step documents and resource collections as onboarding:// resources
+   */
+  private setupResourceHandlers() {
+    this.server.setRequestHandler(ListResourcesRequestSchema, async () => ({
+      resources: await ResourceCatalog.listResources(),
+    }));
+
+    this.server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+      resourceTemplates: ResourceCatalog.listTemplates(),
+    }));
+
+    this.server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+      try {
+        return { contents: [await ResourceCatalog.readResource(request.params.uri)] };
+      } catch (error) {
+        throw new McpError(ErrorCode.InvalidParams, error instanceof Error ? error.message : String(error));
+      }
+    });
+  }
+
+  /**
+   * Guided onboarding conversations, filled in with the employee's profile
+   */
+  private setupPromptHandlers() {
+    this.server.setRequestHandler(ListPromptsRequestSchema, async () => ({
+      prompts: OnboardingPrompts.list(),
+    }));
+
+    this.server.setRequestHandler(GetPromptRequestSchema, async (request, extra) => {
+      try {
+        const caller = CallerAuth.fromAuthInfo(extra.authInfo) || await AccessPolicy.getLocalPromptCaller();
+        const args = caller
+          ? await AccessPolicy.scopePromptArguments(request.params.arguments || {}, caller)
+          : request.params.arguments;
+        return await OnboardingPrompts.get(request.params.name, args);
+      } catch (error) {
+        if (error instanceof AccessDeniedError) {
+          throw new McpError(ErrorCode.InvalidRequest, error.message, { prompt: request.params.name, reason: 'access_denied' });
+        }
+        throw new McpError(ErrorCode.InvalidParams, error instanceof Error ? error.message : String(error));
+      }
     });
   }
 
@@ -80,13 +246,18 @@ class OnboardingMCPServer {
                 type: 'string',
                 description: 'Employee department (optional)',
               },
+              track: {
+                type: 'string',
+                description: 'Onboarding track, e.g. "backend" or "pm" (optional - will be picked from department if not provided)',
+              },
             },
             required: [],
           },
+          outputSchema: OUTPUT_SCHEMAS.start_onboarding,
         },
         {
           name: 'get_current_step',
-          description: 'Get the current onboarding step for an employee',
+          description: 'Get the current onboarding step and all other unlocked steps for an employee',
           inputSchema: {
             type: 'object',
             properties: {
@@ -94,13 +265,18 @@ class OnboardingMCPServer {
                 type: 'string',
                 description: 'Employee email address (optional - will auto-detect if not provided)',
               },
+              section: {
+                type: 'string',
+                description: 'Return only the step summary plus this section (e.g. "instructions", "completion-criteria"), or "summary" for the summary and section list. Omit for the whole step.',
+              },
             },
             required: [],
           },
+          outputSchema: OUTPUT_SCHEMAS.get_current_step,
         },
         {
           name: 'complete_step',
-          description: 'Mark an onboarding step as completed and advance to next step',
+          description: 'Mark an unlocked onboarding step as completed and unlock the steps that depend on it',
           inputSchema: {
             type: 'object',
             properties: {
@@ -118,11 +294,117 @@ class OnboardingMCPServer {
               },
               data: {
                 type: 'object',
-                description: 'Optional additional data about step completion',
+                description: 'Additional data about step completion; steps with completion checks require specific fields (e.g. { "prUrl": "..." })',
+              },
+            },
+            required: [],
+          },
+          outputSchema: OUTPUT_SCHEMAS.complete_step,
+        },
+        {
+          name: 'complete_subtask',
+          description: 'Check off checklist items (sub-tasks) within an onboarding step',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              subtaskIds: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'Sub-task IDs as shown in the step checklist; a section ID (the part before "/") checks off the whole section',
+              },
+              stepId: {
+                type: 'number',
+                description: 'ID of the step the sub-tasks belong to (optional - will use current step if not provided)',
+              },
+              email: {
+                type: 'string',
+                description: 'Employee email address (optional - will auto-detect if not provided)',
+              },
+              notes: {
+                type: 'string',
+                description: 'Optional notes about the sub-tasks',
+              },
+              undo: {
+                type: 'boolean',
+                description: 'Uncheck the sub-tasks instead (optional)',
+              },
+            },
+            required: ['subtaskIds'],
+          },
+          outputSchema: OUTPUT_SCHEMAS.complete_subtask,
+        },
+        {
+          name: 'skip_step',
+          description: 'Skip an optional onboarding step with a reason and move on',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              stepId: {
+                type: 'number',
+                description: 'ID of the optional step to skip (optional - will use current step if not provided)',
+              },
+              email: {
+                type: 'string',
+                description: 'Employee email address (optional - will auto-detect if not provided)',
+              },
+              reason: {
+                type: 'string',
+                description: 'Why the step is being skipped',
+              },
+            },
+            required: ['reason'],
+          },
+          outputSchema: OUTPUT_SCHEMAS.skip_step,
+        },
+        {
+          name: 'defer_step',
+          description: 'Move an optional onboarding step to the end of the employee\'s queue',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              stepId: {
+                type: 'number',
+                description: 'ID of the optional step to defer (optional - will use current step if not provided)',
+              },
+              email: {
+                type: 'string',
+                description: 'Employee email address (optional - will auto-detect if not provided)',
+              },
+              reason: {
+                type: 'string',
+                description: 'Optional reason for deferring the step',
               },
             },
             required: [],
           },
+          outputSchema: OUTPUT_SCHEMAS.defer_step,
+        },
+        {
+          name: 'reopen_step',
+          description: 'Reopen a completed or skipped step (e.g. marked done by mistake) so the employee goes back to it; the previous completion is kept in the audit history',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              stepId: {
+                type: 'number',
+                description: 'ID of the completed or skipped step to reopen',
+              },
+              email: {
+                type: 'string',
+                description: 'Employee email address (optional - will auto-detect if not provided)',
+              },
+              reason: {
+                type: 'string',
+                description: 'Why the step is being reopened',
+              },
+              cascade: {
+                type: 'boolean',
+                description: 'Also reopen finished steps that depend on this one (optional - defaults to false)',
+              },
+            },
+            required: ['stepId', 'reason'],
+          },
+          outputSchema: OUTPUT_SCHEMAS.reopen_step,
         },
         {
           name: 'get_progress',
@@ -137,321 +419,1523 @@ class OnboardingMCPServer {
             },
             required: [],
           },
+          outputSchema: OUTPUT_SCHEMAS.get_progress,
         },
         {
           name: 'get_all_steps',
-          description: 'Get all available onboarding steps',
-          // inputSchema: {
-          //   type: 'object',
-          //   properties: {},
-          //   required: [],
-          // },
+          description: 'Get all available onboarding steps for a track',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              track: {
+                type: 'string',
+                description: `Onboarding track to list (optional - defaults to "${BASE_TRACK}")`,
+              },
+            },
+            required: [],
+          },
+          outputSchema: OUTPUT_SCHEMAS.get_all_steps,
         },
         {
-          name: 'register_employee',
-          description: 'Register a new employee when auto-detection fails',
+          name: 'search_onboarding',
+          description: 'Search every onboarding step, completion criteria, link and resource collection ("where was the link for X?"); tolerates typos and returns ranked hits with the step or section and a snippet',
           inputSchema: {
             type: 'object',
             properties: {
-              email: {
+              query: {
                 type: 'string',
-                description: 'Employee email address',
+                description: 'Words to look for, e.g. "yubikey order" or "vpn setup"',
               },
-              name: {
+              track: {
                 type: 'string',
-                description: 'Employee full name',
+                description: 'Only search steps of this track (optional - defaults to every track)',
               },
+              limit: {
+                type: 'number',
+                description: `Maximum number of hits (default ${DEFAULT_SEARCH_LIMIT}, at most ${MAX_SEARCH_LIMIT})`,
+              },
+            },
+            required: ['query'],
+          },
+          outputSchema: OUTPUT_SCHEMAS.search_onboarding,
+        },
+        {
+          name: 'list_onboardees',
+          description: 'List employees going through onboarding with their current step, percent complete, days since start and last update (for buddies and managers)',
+          inputSchema: {
+            type: 'object',
+            properties: {
               buddyEmail: {
                 type: 'string',
-                description: 'Onboarding buddy email address (optional)',
+                description: 'Only employees with this onboarding buddy (optional)',
               },
               department: {
                 type: 'string',
-                description: 'Employee department (optional)',
+                description: 'Only employees in this department (optional)',
+              },
+              status: {
+                type: 'string',
+                enum: ONBOARDING_STATUSES,
+                description: 'Only employees with this onboarding status (optional)',
+              },
+              track: {
+                type: 'string',
+                description: 'Only employees on this onboarding track (optional)',
               },
             },
-            required: ['email', 'name'],
+            required: [],
           },
+          outputSchema: OUTPUT_SCHEMAS.list_onboardees,
         },
-      ],
-    }));
-
-    // Handle tool calls
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
-      const { name, arguments: args } = request.params;
-
-      try {
-        switch (name) {
-          case 'start_onboarding':
-            return await this.handleStartOnboarding(args as StartOnboardingArgs);
-          
-          case 'get_current_step':
-            return await this.handleGetCurrentStep(args as { email?: string });
-          
-          case 'complete_step':
-            return await this.handleCompleteStep(args as unknown as CompleteStepArgs);
-          
-          case 'get_progress':
-            return await this.handleGetProgress(args as GetProgressArgs);
-          
-          case 'get_all_steps':
-            return await this.handleGetAllSteps();
-          
-          case 'register_employee':
-            return await this.handleRegisterEmployee(args as StartOnboardingArgs);
-          
-          default:
-            throw new McpError(ErrorCode.MethodNotFound, `Unknown tool: ${name}`);
-        }
-      } catch (error: any) {
-        if (error.message === 'REGISTRATION_REQUIRED') {
-          return {
-            content: [
-              {
-                type: 'text',
-                text: 'Employee registration required. Please use the register_employee tool first with your email and name.',
+        {
+          name: 'get_buddy_overview',
+          description: 'Show an onboarding buddy everyone they are responsible for, with detailed progress',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              buddyEmail: {
+                type: 'string',
+                description: 'Buddy email address (optional - will auto-detect if not provided)',
+              },
+              department: {
+                type: 'string',
+                description: 'Only mentees in this department (optional)',
+              },
+              status: {
+                type: 'string',
+                enum: ONBOARDING_STATUSES,
+                description: 'Only mentees with this onboarding status (optional)',
               },
-            ],
-          };
-        }
-        
-        return {
-          content: [
-            {
-              type: 'text',
-              text: `Error: ${error.message}`,
             },
-          ],
-          isError: true,
-        };
-      }
-    });
-  }
-
-  private async handleStartOnboarding(args: StartOnboardingArgs = {}) {
-    try {
-      let profile: EmployeeProfile;
-
-      if (args.email) {
-        // Use provided email
-        profile = await EmployeeIdentifier.createNewProfile(args.email, args);
-      } else {
-        // Auto-detect employee
-        profile = await EmployeeIdentifier.getEmployeeProfile();
-      }
-
-      const currentStep = await ConfigParser.getStep(profile.currentStep);
-      const allSteps = await ConfigParser.getAllSteps();
-      
-      let welcomeMessage = `Welcome ${profile.name}! 🎉\n\n`;
-      welcomeMessage += `You have ${allSteps.length} onboarding steps ahead. Let's start with Step ${profile.currentStep}:\n\n`;
-      
-      if (currentStep) {
-        const formattedStep = ConfigParser.formatStepForAI(currentStep);
-        welcomeMessage += `${formattedStep}\n\n`;
-        welcomeMessage += `Type "done" when you complete this step to move to the next one.`;
-      } else {
-        welcomeMessage += `🎉 Congratulations! You have completed all onboarding steps!`;
-      }
-      
-      return {
-        content: [
-          {
-            type: 'text',
-            text: welcomeMessage,
+            required: [],
           },
-        ],
-      };
-    } catch (error: any) {
-      throw error;
-    }
-  }
-
-  private async handleGetCurrentStep(args: { email?: string } = {}) {
-    const profile = await EmployeeIdentifier.getEmployeeProfile(args.email);
-    const currentStep = await ConfigParser.getStep(profile.currentStep);
-    
-    if (!currentStep) {
-      return {
-        content: [
-          {
-            type: 'text',
-            text: 'Congratulations! You have completed all onboarding steps.',
+          outputSchema: OUTPUT_SCHEMAS.get_buddy_overview,
+        },
+        {
+          name: 'find_stalled_onboardings',
+          description: 'Find employees stuck on their current step longer than its estimated time, ranked by how overdue they are, with suggested follow-ups',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              buddyEmail: {
+                type: 'string',
+                description: 'Only employees with this onboarding buddy (optional)',
+              },
+              department: {
+                type: 'string',
+                description: 'Only employees in this department (optional)',
+              },
+              threshold: {
+                type: 'number',
+                description: 'Flag employees once time on step exceeds the expected time times this factor (optional - defaults to 1)',
+              },
+            },
+            required: [],
           },
-        ],
+          outputSchema: OUTPUT_SCHEMAS.find_stalled_onboardings,
+        },
+        {
+          name: 'export_progress',
+          description: 'Export a per-employee, per-step progress table with completion dates, notes and days to complete, as CSV, JSON or Markdown (for reporting to leadership)',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              format: {
+                type: 'string',
+                enum: EXPORT_FORMATS,
+                description: 'Output format (default: markdown)',
+              },
+              from: {
+                type: 'string',
+                description: 'Only employees who started on or after this date, YYYY-MM-DD (optional)',
+              },
+              to: {
+                type: 'string',
+                description: 'Only employees who started on or before this date, YYYY-MM-DD (optional)',
+              },
+              department: {
+                type: 'string',
+                description: 'Only employees in this department (optional)',
+              },
+              buddyEmail: {
+                type: 'string',
+                description: 'Only employees with this onboarding buddy (optional)',
+              },
+            },
+            required: [],
+          },
+          outputSchema: OUTPUT_SCHEMAS.export_progress,
+        },
+        {
+          name: 'get_onboarding_analytics',
+          description: 'Per-step median and p90 time to complete, completion funnel and drop-off across employees, grouped by start-month cohort or department (for step authors and managers)',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              track: {
+                type: 'string',
+                description: 'Only employees on this onboarding track (optional)',
+              },
+              department: {
+                type: 'string',
+                description: 'Only employees in this department (optional)',
+              },
+              buddyEmail: {
+                type: 'string',
+                description: 'Only employees with this onboarding buddy (optional)',
+              },
+              groupBy: {
+                type: 'string',
+                enum: ANALYTICS_GROUPINGS,
+                description: 'Break the figures down by start month ("cohort", default), "department", or not at all ("none")',
+              },
+            },
+            required: [],
+          },
+          outputSchema: OUTPUT_SCHEMAS.get_onboarding_analytics,
+        },
+        {
+          name: 'validate_config',
+          description: 'Lint the onboarding step configuration (duplicate/missing ids, header mismatches, missing titles or completion criteria, diverging Markdown/HTML versions)',
+          inputSchema: {
+            type: 'object',
+            properties: {},
+            required: [],
+          },
+          outputSchema: OUTPUT_SCHEMAS.validate_config,
+        },
+        {
+          name: 'whoami',
+          description: 'Show which employee the assistant is acting as and which identity source (identity file, environment, git, domain map) decided it',
+          inputSchema: {
+            type: 'object',
+            properties: {},
+            required: [],
+          },
+          outputSchema: OUTPUT_SCHEMAS.whoami,
+        },
+        {
+          name: 'merge_profiles',
+          description: 'Fold a stray profile (e.g. created under a mistyped email) into the employee\'s real profile and remove the stray one',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              sourceEmail: {
+                type: 'string',
+                description: 'Email of the stray profile to merge and remove',
+              },
+              targetEmail: {
+                type: 'string',
+                description: 'Email of the real profile that keeps the combined progress',
+              },
+            },
+            required: ['sourceEmail', 'targetEmail'],
+          },
+          outputSchema: OUTPUT_SCHEMAS.merge_profiles,
+        },
+        {
+          name: 'recover_profile',
+          description: 'Recover an onboarding profile that can no longer be read: the broken copy is set aside and the last good version restored',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              email: {
+                type: 'string',
+                description: 'Email address of the employee whose profile is unreadable',
+              },
+            },
+            required: ['email'],
+          },
+          outputSchema: OUTPUT_SCHEMAS.recover_profile,
+        },
+        {
+          name: 'register_employee',
+          description: 'Register a new employee when auto-detection fails',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              email: {
+                type: 'string',
+                description: 'Employee email address',
+              },
+              name: {
+                type: 'string',
+                description: 'Employee full name',
+              },
+              buddyEmail: {
+                type: 'string',
+                description: 'Onboarding buddy email address (optional)',
+              },
+              department: {
+                type: 'string',
+                description: 'Employee department (optional)',
+              },
+              track: {
+                type: 'string',
+                description: 'Onboarding track, e.g. "backend" or "pm" (optional - will be picked from department if not provided)',
+              },
+            },
+            required: ['email', 'name'],
+          },
+          outputSchema: OUTPUT_SCHEMAS.register_employee,
+        },
+        {
+          name: 'import_employees',
+          description: 'Pre-create onboarding profiles for incoming hires from an HR roster (CSV or JSON). Rows are validated and duplicates of existing profiles reported; each profile becomes active on its start date.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              content: {
+                type: 'string',
+                description: 'The roster: CSV with a header row, or a JSON array, with email, name, buddy, department, track and startDate (YYYY-MM-DD, today or later) per employee',
+              },
+              format: {
+                type: 'string',
+                enum: IMPORT_FORMATS,
+                description: 'Roster format (optional - detected from the content if not provided)',
+              },
+              dryRun: {
+                type: 'boolean',
+                description: 'Only report what would be created, without saving anything (default: false)',
+              },
+            },
+            required: ['content'],
+          },
+          outputSchema: OUTPUT_SCHEMAS.import_employees,
+        },
+      ],
+    }));
+
+    // Handle tool calls
+    this.server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+      const { name } = request.params;
+      // Over HTTP the authenticated caller replaces guessing who is asking
+      const authenticated = CallerAuth.fromAuthInfo(extra.authInfo);
+
+      try {
+        const caller = authenticated || await AccessPolicy.getLocalCaller(name, request.params.arguments || {});
+        const args = caller
+          ? await AccessPolicy.scopeToolArguments(name, request.params.arguments || {}, caller)
+          : request.params.arguments;
+
+        switch (name) {
+          case 'start_onboarding':
+            return await this.handleStartOnboarding(args as StartOnboardingArgs);
+          
+          case 'get_current_step':
+            return await this.handleGetCurrentStep(args as GetCurrentStepArgs);
+          
+          case 'complete_step':
+            return await this.handleCompleteStep(args as unknown as CompleteStepArgs);
+          
+          case 'complete_subtask':
+            return await this.handleCompleteSubtask(args as unknown as CompleteSubtaskArgs);
+          
+          case 'skip_step':
+            return await this.handleSkipStep(args as unknown as SkipStepArgs);
+          
+          case 'defer_step':
+            return await this.handleDeferStep(args as DeferStepArgs);
+          
+          case 'reopen_step':
+            return await this.handleReopenStep(args as unknown as ReopenStepArgs);
+
+          case 'get_progress':
+            return await this.handleGetProgress(args as GetProgressArgs);
+          
+          case 'get_all_steps':
+            return await this.handleGetAllSteps(args as GetAllStepsArgs);
+          
+          case 'search_onboarding':
+            return await this.handleSearchOnboarding(args as unknown as SearchOnboardingArgs);
+
+          case 'whoami':
+            return await this.handleWhoami(authenticated);
+
+          case 'merge_profiles':
+            return await this.handleMergeProfiles(args as unknown as MergeProfilesArgs);
+
+          case 'recover_profile':
+            return await this.handleRecoverProfile(args as unknown as RecoverProfileArgs);
+
+          case 'register_employee':
+            return await this.handleRegisterEmployee(args as StartOnboardingArgs);
+
+          case 'import_employees':
+            return await this.handleImportEmployees(args as unknown as ImportEmployeesArgs);
+          
+          case 'list_onboardees':
+            return await this.handleListOnboardees(args as ListOnboardeesArgs);
+          
+          case 'get_buddy_overview':
+            return await this.handleGetBuddyOverview(args as BuddyOverviewArgs);
+          
+          case 'find_stalled_onboardings':
+            return await this.handleFindStalledOnboardings(args as FindStalledArgs);
+
+          case 'export_progress':
+            return await this.handleExportProgress(args as ExportProgressArgs);
+
+          case 'get_onboarding_analytics':
+            return await this.handleGetOnboardingAnalytics(args as GetAnalyticsArgs);
+          
+          case 'validate_config':
+            return await this.handleValidateConfig();
+          
+          default:
+            throw new McpError(ErrorCode.MethodNotFound, `Unknown tool: ${name}`);
+        }
+      } catch (error: any) {
+        // Denials and protocol errors are JSON-RPC errors, not tool results
+        if (error instanceof AccessDeniedError) {
+          throw new McpError(ErrorCode.InvalidRequest, error.message, { tool: name, reason: 'access_denied' });
+        }
+        if (error instanceof McpError) {
+          throw error;
+        }
+
+        // Both ask the employee for input rather than report a failure, but they
+        // carry no structured result, so they are flagged as errors
+        if (error instanceof IdentityAmbiguousError) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: error.message,
+              },
+            ],
+            isError: true,
+          };
+        }
+
+        if (error.message === 'REGISTRATION_REQUIRED') {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: 'Employee registration required. Please use the register_employee tool first with your email and name.',
+              },
+            ],
+            isError: true,
+          };
+        }
+        
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error: ${error.message}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    });
+  }
+
+  private async handleStartOnboarding(args: StartOnboardingArgs = {}) {
+    try {
+      const email = args.email || await EmployeeIdentifier.getCurrentEmployeeEmail();
+      let profile = await EmployeeIdentifier.findEmployeeProfile(email);
+      const created = !profile;
+
+      if (!profile) {
+        // First time: this is one of the two places a profile gets created
+        profile = await this.createProfileOnTrack(email, args);
+      } else {
+        // Resume, picking a track for profiles created before tracks existed
+        if (!profile.track) {
+          profile.track = await ConfigParser.resolveTrackName(args.track, args.department || profile.department);
+          EmployeeIdentifier.recordEvent(profile, { type: 'edited', details: { track: profile.track } });
+          await EmployeeIdentifier.saveEmployeeProfile(profile);
+        }
+      }
+
+      const track = this.getTrack(profile);
+      const allSteps = await ConfigParser.getAllSteps(track);
+      StepGraph.applyToProfile(profile, allSteps);
+      const currentStep = allSteps.find(step => step.id === profile.currentStep);
+      
+      let welcomeMessage = `Welcome ${profile.name}! 🎉\n\n`;
+      if (track !== BASE_TRACK) {
+        welcomeMessage += `You are on the **${track}** onboarding track.\n`;
+      }
+      welcomeMessage += this.formatPendingNotice(profile);
+      welcomeMessage += `You have ${allSteps.length} onboarding steps ahead. Let's start with Step ${profile.currentStep}:\n\n`;
+      
+      if (currentStep) {
+        const formattedStep = this.formatStep(profile, currentStep);
+        welcomeMessage += `${formattedStep}\n\n`;
+        welcomeMessage += this.formatOtherAvailableSteps(profile, allSteps);
+        welcomeMessage += `Type "done" when you complete this step to move to the next one.`;
+      } else {
+        welcomeMessage += `🎉 Congratulations! You have completed all onboarding steps!`;
+      }
+      
+      return ToolOutput.result(welcomeMessage, { ...await this.getProgressOutput(profile), created });
+    } catch (error: any) {
+      throw error;
+    }
+  }
+
+  private async handleGetCurrentStep(args: GetCurrentStepArgs = {}) {
+    const profile = await EmployeeIdentifier.getEmployeeProfile(args.email);
+    const track = this.getTrack(profile);
+    const allSteps = await ConfigParser.getAllSteps(track);
+    StepGraph.applyToProfile(profile, allSteps);
+    const currentStep = allSteps.find(step => step.id === profile.currentStep);
+    
+    if (!currentStep) {
+      return ToolOutput.result('Congratulations! You have completed all onboarding steps.', {
+        ...await this.getProgressOutput(profile),
+        section: null,
+        sections: [],
+      });
+    }
+
+    const formattedStep = args.section
+      ? ResourceCatalog.resolveMarkdownLinks(
+        StepSections.formatSection(currentStep, args.section, profile.stepData[currentStep.id]?.subtasks || {})
+      )
+      : this.formatStep(profile, currentStep);
+    const availableSteps = this.getUnlockedStepsInOrder(profile, allSteps);
+
+    let message = this.formatPendingNotice(profile);
+    if (availableSteps.length > 1) {
+      message += `**Available Steps (${availableSteps.length}):**\n`;
+      for (const step of availableSteps) {
+        message += `- ${this.formatStepListItem(profile, step)}\n`;
+      }
+      message += `\nYou can work on any of these now. Details for step ${currentStep.id}:\n\n`;
+    }
+    message += `**Current Step (${profile.currentStep}/${allSteps.length}):**\n\n${formattedStep}`;
+    
+    return ToolOutput.result(message, {
+      ...await this.getProgressOutput(profile),
+      section: args.section || null,
+      sections: StepSections.outline(currentStep).sections.map(({ name, heading }) => ({ name, heading })),
+    });
+  }
+
+  private async handleCompleteStep(args: CompleteStepArgs) {
+    const profile = await EmployeeIdentifier.getEmployeeProfile(args.email);
+    const track = this.getTrack(profile);
+    const allSteps = await ConfigParser.getAllSteps(track);
+    StepGraph.applyToProfile(profile, allSteps);
+    this.checkNotPending(profile);
+    
+    // Complete the current step if stepId is not explicitly provided
+    const stepToComplete = args.stepId || profile.currentStep;
+    const completedStep = allSteps.find(step => step.id === stepToComplete);
+    const respond = async (
+      outcome: CompletionOutcome,
+      text: string,
+      details: Record<string, unknown> = {},
+      isError = false
+    ) => ToolOutput.result(text, {
+      stepId: stepToComplete,
+      outcome,
+      step: completedStep ? ToolOutput.step(completedStep, profile) : null,
+      ...details,
+      progress: await this.getProgressOutput(profile),
+    }, isError);
+    
+    // Validate step completion
+    if (profile.completedSteps.includes(stepToComplete)) {
+      return respond('already_completed', `Step ${stepToComplete} is already completed.`);
+    }
+
+    if (profile.skippedSteps?.includes(stepToComplete)) {
+      return respond(
+        'skipped',
+        `Step ${stepToComplete} was skipped: ${profile.stepData[stepToComplete]?.skipReason || 'no reason given'}.`
+      );
+    }
+
+    if (!completedStep) {
+      return respond('not_on_track', `Step ${stepToComplete} is not part of the ${track} onboarding track.`);
+    }
+
+    if (!profile.unlockedSteps?.includes(stepToComplete)) {
+      const blocking = StepGraph.getBlockingSteps(completedStep, allSteps, StepGraph.getDoneStepIds(profile));
+      return respond(
+        'locked',
+        `Step ${stepToComplete} is locked. You must complete step ${blocking.join(', ')} before moving to step ${stepToComplete}.`,
+        { blockedBy: blocking }
+      );
+    }
+
+    // Every required checklist item has to be checked off first
+    const pendingSubtasks = ChecklistParser.getPendingRequired(
+      completedStep.subtasks || [],
+      profile.stepData[stepToComplete]?.subtasks
+    );
+    if (pendingSubtasks.length > 0) {
+      let message = `Step ${stepToComplete} (${completedStep.title}) still has ${pendingSubtasks.length} required checklist item(s) open:\n\n`;
+      for (const item of pendingSubtasks) {
+        message += `- [ ] ${item.text} \`${item.id}\`\n`;
+      }
+      message += `\nCheck them off with complete_subtask, then complete the step.`;
+
+      return respond('subtasks_pending', message, {
+        pendingSubtasks: pendingSubtasks.map(item => ({ id: item.id, text: item.text })),
+      });
+    }
+
+    // Verify machine-checkable criteria before accepting the completion
+    const checkResults = completedStep.checks && completedStep.checks.length > 0
+      ? await CompletionChecker.runChecks(completedStep.checks, args.data, { onEmployeeMachine: this.transport === 'stdio' })
+      : undefined;
+    const failedChecks = checkResults?.filter(result => !result.passed) || [];
+
+    if (failedChecks.length > 0) {
+      profile.stepData[stepToComplete] = {
+        ...profile.stepData[stepToComplete],
+        lastCheckAt: new Date().toISOString(),
+        lastCheckResults: checkResults,
       };
+      await EmployeeIdentifier.saveEmployeeProfile(profile);
+
+      let message = `❌ Step ${stepToComplete} (${completedStep.title}) can't be completed yet. These checks failed:\n\n`;
+      for (const result of failedChecks) {
+        message += `- ${result.description}: ${result.message}\n`;
+      }
+      message += `\nFix these and call complete_step again.`;
+
+      return respond('checks_failed', message, { checkResults }, true);
+    }
+
+    // Mark step as completed
+    const previouslyUnlocked = profile.unlockedSteps || [];
+    profile.completedSteps.push(stepToComplete);
+    profile.deferredSteps = profile.deferredSteps?.filter(id => id !== stepToComplete);
+    profile.stepData[stepToComplete] = {
+      ...profile.stepData[stepToComplete],
+      completedAt: new Date().toISOString(),
+      notes: args.notes,
+      data: args.data,
+      checkResults,
+    };
+    EmployeeIdentifier.recordEvent(profile, { type: 'completed', stepId: stepToComplete, reason: args.notes });
+
+    // Unlock the steps that depended on it
+    StepGraph.applyToProfile(profile, allSteps);
+
+    await EmployeeIdentifier.saveEmployeeProfile(profile);
+
+    const newlyUnlocked = allSteps.filter(step =>
+      profile.unlockedSteps?.includes(step.id) && !previouslyUnlocked.includes(step.id)
+    );
+
+    let message = `✅ Step ${stepToComplete} completed: ${completedStep.title}\n\n`;
+
+    const unverified = checkResults?.filter(result => result.skipped) || [];
+    if (unverified.length > 0) {
+      message += `⚠️ Not verified on this shared server - please confirm these yourself:\n`;
+      message += unverified.map(result => `- ${result.description}`).join('\n');
+      message += '\n\n';
+    }
+
+    if (newlyUnlocked.length > 0) {
+      message += `🔓 Unlocked: ${newlyUnlocked.map(step => `Step ${step.id} (${step.title})`).join(', ')}\n\n`;
+    }
+
+    message += this.formatNextStep(profile, allSteps);
+
+    return respond('completed', message, {
+      checkResults: checkResults || [],
+      unlockedSteps: newlyUnlocked.map(step => ToolOutput.step(step, profile)),
+    });
+  }
+
+  private async handleCompleteSubtask(args: CompleteSubtaskArgs) {
+    if (!Array.isArray(args.subtaskIds) || args.subtaskIds.length === 0) {
+      throw new Error('subtaskIds must list at least one sub-task ID');
+    }
+
+    const profile = await EmployeeIdentifier.getEmployeeProfile(args.email);
+    const track = this.getTrack(profile);
+    const allSteps = await ConfigParser.getAllSteps(track);
+    StepGraph.applyToProfile(profile, allSteps);
+    this.checkNotPending(profile);
+
+    const stepId = args.stepId || profile.currentStep;
+    const step = allSteps.find(s => s.id === stepId);
+    if (!step) {
+      throw new Error(`Step ${stepId} is not part of the ${track} onboarding track.`);
+    }
+    if (!step.subtasks) {
+      throw new Error(`Step ${stepId} (${step.title}) has no checklist.`);
+    }
+    if (StepGraph.getDoneStepIds(profile).includes(stepId)) {
+      throw new Error(`Step ${stepId} is already finished.`);
+    }
+    if (!profile.unlockedSteps?.includes(stepId)) {
+      throw new Error(`Step ${stepId} is not unlocked yet.`);
+    }
+
+    const matched: ChecklistItem[] = [];
+    const unknown: string[] = [];
+    for (const requested of args.subtaskIds) {
+      const id = requested.trim();
+      const items = step.subtasks.filter(item => item.id === id || item.id.startsWith(`${id}/`));
+      if (items.length === 0) {
+        unknown.push(id);
+      }
+      for (const item of items) {
+        if (!matched.includes(item)) {
+          matched.push(item);
+        }
+      }
+    }
+
+    if (unknown.length > 0) {
+      throw new Error(`Unknown sub-task ID(s) for step ${stepId}: ${unknown.join(', ')}. Use the IDs shown in the step checklist.`);
+    }
+
+    const stepData = profile.stepData[stepId] || {};
+    const state = { ...(stepData.subtasks || {}) };
+    for (const item of matched) {
+      if (args.undo) {
+        delete state[item.id];
+      } else if (!state[item.id]) {
+        state[item.id] = { completedAt: new Date().toISOString(), notes: args.notes };
+      }
     }
+    profile.stepData[stepId] = { ...stepData, subtasks: state };
 
-    const formattedStep = ConfigParser.formatStepForAI(currentStep);
-    
-    return {
-      content: [
-        {
-          type: 'text',
-          text: `**Current Step (${profile.currentStep}/${await this.getTotalSteps()}):**\n\n${formattedStep}`,
-        },
-      ],
-    };
+    await EmployeeIdentifier.saveEmployeeProfile(profile);
+
+    const verb = args.undo ? 'Unchecked' : 'Checked off';
+    let message = `${verb} ${matched.length} item(s) in Step ${stepId}: ${step.title}\n\n`;
+    message += ChecklistParser.formatChecklist(step.subtasks, state);
+
+    const pending = ChecklistParser.getPendingRequired(step.subtasks, state);
+    if (pending.length === 0) {
+      message += `\n✅ All required checklist items are done. Step ${stepId} is ready to be marked complete.`;
+    } else {
+      message += `\n${pending.length} required item(s) left before step ${stepId} can be completed.`;
+    }
+
+    return ToolOutput.result(message, {
+      stepId,
+      undo: !!args.undo,
+      changed: matched.map(item => item.id),
+      checklist: step.subtasks.map(item => ({
+        id: item.id,
+        text: item.text,
+        section: item.section || null,
+        required: item.required,
+        done: !!state[item.id],
+        completedAt: state[item.id]?.completedAt || null,
+      })),
+      pendingRequired: pending.length,
+      readyToComplete: pending.length === 0,
+    });
   }
 
-  private async handleCompleteStep(args: CompleteStepArgs) {
+  private async handleSkipStep(args: SkipStepArgs) {
+    if (!args.reason || !args.reason.trim()) {
+      throw new Error('A reason is required to skip a step');
+    }
+
     const profile = await EmployeeIdentifier.getEmployeeProfile(args.email);
-    
-    // Allow completion of current step if stepId not explicitly provided or matches current step
-    const stepToComplete = args.stepId || profile.currentStep;
-    
-    // Validate step completion
-    if (profile.completedSteps.includes(stepToComplete)) {
-      return {
-        content: [
-          {
-            type: 'text',
-            text: `Step ${stepToComplete} is already completed.`,
-          },
-        ],
-      };
+    const track = this.getTrack(profile);
+    const allSteps = await ConfigParser.getAllSteps(track);
+    StepGraph.applyToProfile(profile, allSteps);
+    this.checkNotPending(profile);
+
+    const stepId = args.stepId || profile.currentStep;
+    const step = allSteps.find(s => s.id === stepId);
+    const refusal = this.checkOptionalStepAction(profile, step, stepId, track, 'skip');
+    if (refusal) {
+      return ToolOutput.result(refusal, { stepId, outcome: 'refused', reason: null, refusal, progress: await this.getProgressOutput(profile) });
     }
 
-    if (stepToComplete !== profile.currentStep) {
-      return {
-        content: [
-          {
-            type: 'text',
-            text: `You must complete step ${profile.currentStep} before moving to step ${stepToComplete}.`,
-          },
-        ],
-      };
+    profile.skippedSteps = [...(profile.skippedSteps || []), stepId];
+    profile.deferredSteps = profile.deferredSteps?.filter(id => id !== stepId);
+    profile.stepData[stepId] = {
+      ...profile.stepData[stepId],
+      skippedAt: new Date().toISOString(),
+      skipReason: args.reason.trim(),
+    };
+    EmployeeIdentifier.recordEvent(profile, { type: 'skipped', stepId, reason: args.reason.trim() });
+
+    StepGraph.applyToProfile(profile, allSteps);
+    await EmployeeIdentifier.saveEmployeeProfile(profile);
+
+    let message = `⏭️ Step ${stepId} skipped: ${step!.title}\nReason: ${args.reason.trim()}\n\n`;
+    message += this.formatNextStep(profile, allSteps);
+
+    return ToolOutput.result(message, {
+      stepId,
+      outcome: 'done',
+      reason: args.reason.trim(),
+      progress: await this.getProgressOutput(profile),
+    });
+  }
+
+  private async handleDeferStep(args: DeferStepArgs = {}) {
+    const profile = await EmployeeIdentifier.getEmployeeProfile(args.email);
+    const track = this.getTrack(profile);
+    const allSteps = await ConfigParser.getAllSteps(track);
+    StepGraph.applyToProfile(profile, allSteps);
+    this.checkNotPending(profile);
+
+    const stepId = args.stepId || profile.currentStep;
+    const step = allSteps.find(s => s.id === stepId);
+    const refusal = this.checkOptionalStepAction(profile, step, stepId, track, 'defer');
+    if (refusal) {
+      return ToolOutput.result(refusal, { stepId, outcome: 'refused', reason: null, refusal, progress: await this.getProgressOutput(profile) });
     }
 
-    // Mark step as completed
-    profile.completedSteps.push(stepToComplete);
-    profile.stepData[stepToComplete] = {
-      completedAt: new Date().toISOString(),
-      notes: args.notes,
-      data: args.data,
+    // Re-deferring moves the step to the back of the queue again
+    profile.deferredSteps = [...(profile.deferredSteps || []).filter(id => id !== stepId), stepId];
+    profile.stepData[stepId] = {
+      ...profile.stepData[stepId],
+      deferredAt: new Date().toISOString(),
+      deferReason: args.reason,
     };
+    EmployeeIdentifier.recordEvent(profile, { type: 'deferred', stepId, reason: args.reason });
+
+    StepGraph.applyToProfile(profile, allSteps);
+    await EmployeeIdentifier.saveEmployeeProfile(profile);
+
+    let message = `🕓 Step ${stepId} deferred: ${step!.title}\n`;
+    if (args.reason) {
+      message += `Reason: ${args.reason}\n`;
+    }
+    message += `It has been moved to the end of your queue.\n\n`;
+    message += this.formatNextStep(profile, allSteps);
+
+    return ToolOutput.result(message, {
+      stepId,
+      outcome: 'done',
+      reason: args.reason || null,
+      progress: await this.getProgressOutput(profile),
+    });
+  }
+
+  private async handleReopenStep(args: ReopenStepArgs) {
+    if (!args.reason || !args.reason.trim()) {
+      throw new Error('A reason is required to reopen a step');
+    }
+
+    const profile = await EmployeeIdentifier.getEmployeeProfile(args.email);
+    const track = this.getTrack(profile);
+    const allSteps = await ConfigParser.getAllSteps(track);
+    StepGraph.applyToProfile(profile, allSteps);
+
+    const step = allSteps.find(s => s.id === args.stepId);
+    if (!step) {
+      throw new Error(`Step ${args.stepId} is not part of the ${track} onboarding track.`);
+    }
 
-    // Advance to next step
-    const allSteps = await ConfigParser.getAllSteps();
-    const nextStep = allSteps.find(step => step.id > stepToComplete);
-    profile.currentStep = nextStep ? nextStep.id : stepToComplete + 1;
+    const doneStepIds = StepGraph.getDoneStepIds(profile);
+    if (!doneStepIds.includes(step.id)) {
+      throw new Error(`Step ${step.id} is not completed or skipped, so there is nothing to reopen.`);
+    }
+
+    const reason = args.reason.trim();
+    const toReopen = [
+      step.id,
+      ...(args.cascade ? StepGraph.getDependents(step.id, allSteps).filter(id => doneStepIds.includes(id)) : []),
+    ];
+
+    for (const stepId of toReopen) {
+      // Keep the checklist; the rest of the previous outcome moves to history
+      const { subtasks, ...previous } = profile.stepData[stepId] || {};
+      profile.completedSteps = profile.completedSteps.filter(id => id !== stepId);
+      profile.skippedSteps = profile.skippedSteps?.filter(id => id !== stepId);
+      profile.stepData[stepId] = {
+        subtasks,
+        reopenedAt: new Date().toISOString(),
+        reopenReason: reason,
+      };
+      EmployeeIdentifier.recordEvent(profile, {
+        type: 'reopened',
+        stepId,
+        reason: stepId === step.id ? reason : `Depends on reopened step ${step.id}: ${reason}`,
+        details: { previous },
+      });
+    }
 
+    StepGraph.applyToProfile(profile, allSteps);
     await EmployeeIdentifier.saveEmployeeProfile(profile);
 
-    const completedStep = await ConfigParser.getStep(stepToComplete);
-    const upcomingStep = await ConfigParser.getStep(profile.currentStep);
+    let message = `↩️ Step ${step.id} reopened: ${step.title}\nReason: ${reason}\n`;
+    if (toReopen.length > 1) {
+      message += `Also reopened dependent step(s): ${toReopen.slice(1).join(', ')}\n`;
+    }
 
-    let message = `✅ Step ${stepToComplete} completed: ${completedStep?.title || 'Unknown step'}\n\n`;
-    
-    if (upcomingStep) {
-      message += `🎯 Next step (${profile.currentStep}/${allSteps.length}): ${upcomingStep.title}\n\n`;
-      const formattedStep = ConfigParser.formatStepForAI(upcomingStep);
-      message += `${formattedStep}\n\n`;
-      message += `Type "done" when you complete this step to move to the next one.`;
-    } else {
-      message += `🎉 Congratulations! You have completed all onboarding steps!`;
+    const stillDone = StepGraph.getDependents(step.id, allSteps).filter(id => StepGraph.getDoneStepIds(profile).includes(id));
+    if (stillDone.length > 0) {
+      message += `Dependent step(s) ${stillDone.join(', ')} stay finished (pass cascade: true to reopen them too).\n`;
     }
 
-    return {
-      content: [
-        {
-          type: 'text',
-          text: message,
-        },
-      ],
-    };
+    message += `\n${this.formatNextStep(profile, allSteps)}`;
+
+    return ToolOutput.result(message, {
+      stepId: step.id,
+      outcome: 'done',
+      reason,
+      reopenedSteps: toReopen,
+      stillDone,
+      progress: await this.getProgressOutput(profile),
+    });
   }
 
   private async handleGetProgress(args: GetProgressArgs = {}) {
     const profile = await EmployeeIdentifier.getEmployeeProfile(args.email);
-    const allSteps = await ConfigParser.getAllSteps();
+    const track = this.getTrack(profile);
+    const allSteps = await ConfigParser.getAllSteps(track);
+    StepGraph.applyToProfile(profile, allSteps);
     
     let progress = `**Onboarding Progress for ${profile.name}**\n\n`;
     progress += `Email: ${profile.email}\n`;
-    progress += `Start Date: ${new Date(profile.startDate).toLocaleDateString()}\n`;
+    progress += `Track: ${track}\n`;
+    progress += `Start Date: ${ProgressSummary.formatDate(profile.startDate)}\n`;
+    if (ProgressSummary.isPending(profile)) {
+      progress += `Status: ${this.formatStatus('pending')}\n`;
+    }
     progress += `Current Step: ${profile.currentStep}\n`;
-    progress += `Completed: ${profile.completedSteps.length}/${allSteps.length} steps\n\n`;
+    if ((profile.unlockedSteps?.length || 0) > 1) {
+      progress += `Available Steps: ${profile.unlockedSteps!.join(', ')}\n`;
+    }
+    progress += `Completed: ${profile.completedSteps.length}/${allSteps.length} steps\n`;
+    progress += `Skipped: ${profile.skippedSteps?.length || 0} | Deferred: ${profile.deferredSteps?.length || 0}\n\n`;
 
     progress += `**Step Details:**\n`;
     for (const step of allSteps) {
       const isCompleted = profile.completedSteps.includes(step.id);
-      const isCurrent = step.id === profile.currentStep;
-      const status = isCompleted ? '✅' : isCurrent ? '🔄' : '⏸️';
+      const isSkipped = profile.skippedSteps?.includes(step.id);
+      const isDeferred = profile.deferredSteps?.includes(step.id);
+      const isAvailable = profile.unlockedSteps?.includes(step.id);
+      const status = isCompleted ? '✅' : isSkipped ? '⏭️' : isDeferred ? '🕓' : isAvailable ? '🔄' : '⏸️';
       
       progress += `${status} Step ${step.id}: ${step.title}`;
       
       if (isCompleted && profile.stepData[step.id]) {
-        const completedAt = new Date(profile.stepData[step.id].completedAt).toLocaleDateString();
+        const completedAt = ProgressSummary.formatDate(profile.stepData[step.id].completedAt);
         progress += ` (completed ${completedAt})`;
+      } else if (isSkipped && profile.stepData[step.id]) {
+        const skippedAt = ProgressSummary.formatDate(profile.stepData[step.id].skippedAt);
+        progress += ` (skipped ${skippedAt}: ${profile.stepData[step.id].skipReason})`;
+      } else if (isDeferred) {
+        progress += ` (deferred)`;
       }
       
       progress += '\n';
     }
 
-    return {
-      content: [
-        {
-          type: 'text',
-          text: progress,
-        },
-      ],
-    };
+    const history = EmployeeIdentifier.getHistory(profile);
+    progress += `\n**Timeline:**\n`;
+    for (const event of history) {
+      progress += `- ${this.formatEvent(event, allSteps)}\n`;
+    }
+
+    return ToolOutput.result(progress, {
+      ...await this.getProgressOutput(profile),
+      steps: allSteps.map(step => ToolOutput.stepProgress(step, profile)),
+      history,
+    });
   }
 
-  private async handleGetAllSteps() {
-    const steps = await ConfigParser.getAllSteps();
+  private async handleGetAllSteps(args: GetAllStepsArgs = {}) {
+    const track = await ConfigParser.resolveTrackName(args.track);
+    const steps = await ConfigParser.getAllSteps(track);
     
-    let stepsText = '**All Onboarding Steps:**\n\n';
+    let stepsText = `**All Onboarding Steps (${track} track):**\n\n`;
     
     for (const step of steps) {
       stepsText += `**Step ${step.id}: ${step.title}**\n`;
       stepsText += `${step.description}\n`;
-      stepsText += `Type: ${step.type} | Required: ${step.required ? 'Yes' : 'No'}\n\n`;
+      stepsText += `Type: ${step.type} | Required: ${step.required ? 'Yes' : 'No'}`;
+      if (step.estimatedTime) {
+        stepsText += ` | Estimated Time: ${step.estimatedTime}`;
+      }
+      if (step.owner) {
+        stepsText += ` | Owner: ${step.owner}`;
+      }
+      stepsText += '\n';
+      if (step.tags && step.tags.length > 0) {
+        stepsText += `Tags: ${step.tags.join(', ')}\n`;
+      }
+      stepsText += '\n';
     }
 
-    return {
-      content: [
-        {
-          type: 'text',
-          text: stepsText,
-        },
-      ],
-    };
+    return ToolOutput.result(stepsText, { track, steps: steps.map(step => ToolOutput.step(step)) });
+  }
+
+  private async handleSearchOnboarding(args: SearchOnboardingArgs) {
+    if (!args.query || !args.query.trim()) {
+      throw new Error('query is required');
+    }
+    const track = args.track ? await ConfigParser.resolveTrackName(args.track) : undefined;
+    const limit = Math.min(Math.max(Math.floor(args.limit || DEFAULT_SEARCH_LIMIT), 1), MAX_SEARCH_LIMIT);
+
+    const results = await SearchIndex.search(args.query, { track, limit });
+    if (results.hits.length === 0) {
+      return ToolOutput.result(`No results for "${args.query}"${track ? ` in the ${track} track` : ''}. Try fewer or different words.`, { ...results });
+    }
+
+    let text = `**Search results for "${args.query}"** (${results.hits.length} of ${results.total})\n\n`;
+    results.hits.forEach((hit, index) => {
+      const where = hit.heading ? ` › ${hit.heading}${hit.section ? ` (\`${hit.section}\`)` : ''}` : '';
+      text += `${index + 1}. **${hit.title}**${where}\n`;
+      text += `   ${hit.snippet}\n`;
+      if (hit.links.length > 0) {
+        text += `   Links: ${hit.links.join(', ')}\n`;
+      }
+      text += `   ${hit.uri}\n\n`;
+    });
+
+    return ToolOutput.result(text, { ...results });
+  }
+
+  private async handleListOnboardees(args: ListOnboardeesArgs = {}) {
+    this.checkStatusFilter(args.status);
+
+    const profiles = await EmployeeIdentifier.queryProfiles(args);
+    const summaries = await ProgressSummary.summarizeAll(profiles, args);
+
+    const filters = [
+      args.buddyEmail && `buddy ${args.buddyEmail}`,
+      args.department && `department ${args.department}`,
+      args.status && `status ${args.status}`,
+      args.track && `track ${args.track}`,
+    ].filter(Boolean);
+
+    let text = `**Onboardees (${summaries.length})**`;
+    text += filters.length > 0 ? ` - ${filters.join(', ')}\n\n` : '\n\n';
+
+    if (summaries.length === 0) {
+      text += 'No employees match these filters.';
+    }
+
+    for (const status of ONBOARDING_STATUSES) {
+      const group = summaries.filter(summary => summary.status === status);
+      if (group.length === 0) {
+        continue;
+      }
+
+      text += `**${this.formatStatus(status)}:**\n`;
+      for (const summary of group) {
+        text += `- ${ProgressSummary.formatSummaryLine(summary)}\n`;
+      }
+      text += '\n';
+    }
+
+    return ToolOutput.result(text, {
+      filters: {
+        buddyEmail: args.buddyEmail,
+        department: args.department,
+        status: args.status,
+        track: args.track,
+      },
+      onboardees: summaries.map(summary => ToolOutput.progress(summary)),
+    });
+  }
+
+  private async handleGetBuddyOverview(args: BuddyOverviewArgs = {}) {
+    this.checkStatusFilter(args.status);
+
+    let buddyEmail = args.buddyEmail;
+    if (!buddyEmail) {
+      try {
+        buddyEmail = await EmployeeIdentifier.getCurrentEmployeeEmail();
+      } catch (error) {
+        throw new Error('Could not detect your email address. Please pass buddyEmail explicitly.');
+      }
+    }
+
+    const profiles = await EmployeeIdentifier.queryProfiles({ buddyEmail, department: args.department });
+    const summaries = await ProgressSummary.summarizeAll(profiles, { ...args, buddyEmail });
+
+    let text = `**Buddy Overview for ${buddyEmail}**\n\n`;
+
+    const finished = summaries.filter(summary => summary.status === 'completed').length;
+    if (summaries.length === 0) {
+      text += 'You are not the onboarding buddy for anyone matching these filters yet.';
+    } else {
+      text += `Mentees: ${summaries.length} | Finished onboarding: ${finished}\n\n`;
+    }
+
+    for (const summary of summaries) {
+      const { profile } = summary;
+      text += `### ${profile.name} (${profile.email})\n`;
+      text += `Status: ${this.formatStatus(summary.status)} | Track: ${summary.track}`;
+      if (profile.department) {
+        text += ` | Department: ${profile.department}`;
+      }
+      text += `\nProgress: ${summary.percentComplete}% (${summary.doneSteps}/${summary.totalSteps} steps)\n`;
+      text += `Started: ${summary.daysSinceStart} days ago | Last update: ${ProgressSummary.formatDuration(summary.msSinceLastUpdate)} ago\n`;
+
+      if (summary.availableSteps.length > 0) {
+        text += `Working on: ${summary.availableSteps.map(step => `Step ${step.id} (${step.title})`).join(', ')}\n`;
+      }
+      text += '\n';
+    }
+
+    return ToolOutput.result(text, {
+      buddyEmail,
+      finished,
+      mentees: summaries.map(summary => ToolOutput.progress(summary)),
+    });
+  }
+
+  private async handleFindStalledOnboardings(args: FindStalledArgs = {}) {
+    if (args.threshold !== undefined && !(args.threshold > 0)) {
+      throw new Error('threshold must be a positive number');
+    }
+
+    const profiles = await EmployeeIdentifier.queryProfiles(args);
+    const stalled = await StallDetector.findStalled(profiles, args);
+
+    return ToolOutput.result(StallDetector.formatReport(stalled), {
+      stalled: stalled.map(({ summary, step, ...details }) => ({
+        ...details,
+        progress: ToolOutput.progress(summary),
+        step: ToolOutput.step(step, summary.profile),
+      })),
+    });
+  }
+
+  private async handleExportProgress(args: ExportProgressArgs = {}) {
+    const format = args.format || 'markdown';
+    if (!EXPORT_FORMATS.includes(format)) {
+      throw new Error(`Unknown format "${format}". Use one of: ${EXPORT_FORMATS.join(', ')}`);
+    }
+
+    const data = await ProgressExporter.collect({
+      from: args.from,
+      to: args.to,
+      department: args.department,
+      buddyEmail: args.buddyEmail,
+    });
+
+    return ToolOutput.result(ProgressExporter.format(data, format), { format, ...data });
+  }
+
+  private async handleGetOnboardingAnalytics(args: GetAnalyticsArgs = {}) {
+    if (args.groupBy && !ANALYTICS_GROUPINGS.includes(args.groupBy)) {
+      throw new Error(`Unknown groupBy "${args.groupBy}". Use one of: ${ANALYTICS_GROUPINGS.join(', ')}`);
+    }
+
+    const report = await OnboardingAnalytics.analyze({
+      track: args.track,
+      department: args.department,
+      buddyEmail: args.buddyEmail,
+      groupBy: args.groupBy,
+    });
+
+    return ToolOutput.result(OnboardingAnalytics.formatReport(report), { ...report });
+  }
+
+  private async handleValidateConfig() {
+    const report = await ConfigValidator.validate();
+
+    return ToolOutput.result(ConfigValidator.formatReport(report), { valid: report.errorCount === 0, ...report });
+  }
+
+  private async handleWhoami(caller?: Caller) {
+    if (caller) {
+      return this.handleAuthenticatedWhoami(caller);
+    }
+
+    const resolution = await EmployeeIdentifier.resolveIdentity();
+    let text = IdentityResolver.formatResolution(resolution);
+
+    let profile: EmployeeProfile | null = null;
+    let role: Role | null = null;
+    if (resolution.email) {
+      if (await RoleConfig.load()) {
+        role = await RoleConfig.getRole(resolution.email);
+        text += `Role: ${role}\n`;
+      }
+      const store = await EmployeeIdentifier.getStore();
+      profile = await store.get(resolution.email);
+      text += profile
+        ? `\nOnboarding profile: ${profile.name}, track ${this.getTrack(profile)}, current step ${profile.currentStep}\n`
+        : `\nNo onboarding profile yet - start_onboarding or register_employee will create one.\n`;
+    }
+
+    return ToolOutput.result(text, {
+      status: resolution.status,
+      email: resolution.email || null,
+      role,
+      source: resolution.chosen?.source || null,
+      confidence: resolution.chosen?.confidence || null,
+      candidates: resolution.candidates,
+      attempts: resolution.attempts.map(attempt => ({
+        source: attempt.source,
+        email: attempt.candidate?.email,
+        confidence: attempt.candidate?.confidence,
+        skipped: attempt.skipped,
+      })),
+      profile: profile ? { name: profile.name, track: this.getTrack(profile), currentStep: profile.currentStep } : null,
+    });
+  }
+
+  /**
+   * whoami over HTTP: the identity comes from the request's credentials
+   */
+  private async handleAuthenticatedWhoami(caller: Caller) {
+    const method = caller.method === 'token' ? 'bearer token' : 'signed email header';
+    let text = `**You are ${caller.email}**\n`;
+    text += `Source: ${method}\n`;
+    text += `Role: ${caller.role}\n`;
+
+    const profile = await EmployeeIdentifier.findEmployeeProfile(caller.email);
+    text += profile
+      ? `\nOnboarding profile: ${profile.name}, track ${this.getTrack(profile)}, current step ${profile.currentStep}\n`
+      : `\nNo onboarding profile yet - start_onboarding or register_employee will create one.\n`;
+
+    return ToolOutput.result(text, {
+      status: 'resolved',
+      email: caller.email,
+      role: caller.role,
+      source: caller.method,
+      confidence: 'high',
+      candidates: [],
+      attempts: [],
+      profile: profile ? { name: profile.name, track: this.getTrack(profile), currentStep: profile.currentStep } : null,
+    });
+  }
+
+  private async handleMergeProfiles(args: MergeProfilesArgs) {
+    if (!args.sourceEmail || !args.targetEmail) {
+      throw new Error('sourceEmail and targetEmail are required');
+    }
+
+    const source = await EmployeeIdentifier.getEmployeeProfile(args.sourceEmail);
+    const target = await EmployeeIdentifier.getEmployeeProfile(args.targetEmail);
+    if (source.email === target.email) {
+      throw new Error('sourceEmail and targetEmail are the same profile');
+    }
+
+    const merged = ProfileMerger.merge(source, target);
+    EmployeeIdentifier.recordEvent(merged, { type: 'merged', details: { from: source.email } });
+
+    const allSteps = await ConfigParser.getAllSteps(this.getTrack(merged));
+    StepGraph.applyToProfile(merged, allSteps);
+
+    // Save the combined profile first so a failure never loses the stray progress
+    await EmployeeIdentifier.saveEmployeeProfile(merged);
+    await EmployeeIdentifier.deleteProfile(source.email);
+
+    const gained = StepGraph.getDoneStepIds(merged).filter(id => !StepGraph.getDoneStepIds(target).includes(id));
+    let message = `🔀 Merged ${source.email} into ${merged.email} and removed ${source.email}.\n\n`;
+    message += gained.length > 0
+      ? `Progress carried over: step(s) ${gained.join(', ')}\n`
+      : `No additional progress was carried over.\n`;
+    message += `Completed: ${merged.completedSteps.length}/${allSteps.length} steps | Current Step: ${merged.currentStep}`;
+
+    return ToolOutput.result(message, {
+      sourceEmail: source.email,
+      targetEmail: merged.email,
+      carriedOverSteps: gained,
+      progress: await this.getProgressOutput(merged),
+    });
   }
 
+  private async handleRecoverProfile(args: RecoverProfileArgs) {
+    if (!args.email) {
+      throw new Error('Email is required to recover a profile');
+    }
+
+    const profile = await EmployeeIdentifier.recoverProfile(args.email);
+    if (!profile) {
+      return ToolOutput.result(
+        `No earlier copy of the profile for ${args.email} could be found. ` +
+          `The unreadable profile was set aside; use register_employee to start a new one.`,
+        { email: args.email, recovered: false, restoredFrom: null, progress: null }
+      );
+    }
+
+    const allSteps = await ConfigParser.getAllSteps(this.getTrack(profile));
+    return ToolOutput.result(
+      `♻️ Restored the last good copy of the profile for ${profile.name} (${profile.email}), ` +
+        `saved ${ProgressSummary.formatDateTime(profile.metadata.lastUpdated)}.\n\n` +
+        `Completed: ${profile.completedSteps.length}/${allSteps.length} steps | Current Step: ${profile.currentStep}\n` +
+        `The unreadable version was set aside. Changes made after the restored copy was saved need to be redone.`,
+      {
+        email: profile.email,
+        recovered: true,
+        restoredFrom: profile.metadata.lastUpdated,
+        progress: await this.getProgressOutput(profile),
+      }
+    );
+  }
 
   private async handleRegisterEmployee(args: StartOnboardingArgs = {}) {
     if (!args.email || !args.name) {
       throw new Error('Email and name are required for registration');
     }
 
-    const profile = await EmployeeIdentifier.createNewProfile(args.email, args);
+    const profile = await this.createProfileOnTrack(args.email, args);
     
-    return {
-      content: [
-        {
-          type: 'text',
-          text: `Employee registered successfully!\n\n` +
-                `Name: ${profile.name}\n` +
-                `Email: ${profile.email}\n` +
-                `Start Date: ${new Date(profile.startDate).toLocaleDateString()}\n\n` +
-                `You can now use other onboarding tools. Ask me about your current step to begin!`,
-        },
-      ],
+    return ToolOutput.result(
+      `Employee registered successfully!\n\n` +
+        `Name: ${profile.name}\n` +
+        `Email: ${profile.email}\n` +
+        `Track: ${profile.track}\n` +
+        `Start Date: ${ProgressSummary.formatDate(profile.startDate)}\n\n` +
+        `You can now use other onboarding tools. Ask me about your current step to begin!`,
+      { ...await this.getProgressOutput(profile), created: true }
+    );
+  }
+
+  private async handleImportEmployees(args: ImportEmployeesArgs) {
+    if (!args.content || !args.content.trim()) {
+      throw new Error('content must hold the roster to import (CSV or JSON)');
+    }
+    if (args.format && !IMPORT_FORMATS.includes(args.format)) {
+      throw new Error(`Unknown format "${args.format}". Use one of: ${IMPORT_FORMATS.join(', ')}`);
+    }
+
+    const report = await EmployeeImporter.import(args.content, { format: args.format, dryRun: args.dryRun });
+    return ToolOutput.result(EmployeeImporter.formatReport(report), { ...report });
+  }
+
+  /**
+   * Create a profile on its resolved track, starting at the track's first step
+   */
+  private async createProfileOnTrack(email: string, args: StartOnboardingArgs): Promise<EmployeeProfile> {
+    const track = await ConfigParser.resolveTrackName(args.track, args.department);
+    const steps = await ConfigParser.getAllSteps(track);
+    const unlockedSteps = StepGraph.getUnlockedSteps(steps, []);
+
+    return EmployeeIdentifier.createNewProfile(email, {
+      ...args,
+      track,
+      currentStep: unlockedSteps.length > 0 ? unlockedSteps[0] : 1,
+      unlockedSteps,
+    });
+  }
+
+  /**
+   * Imported hires can read their steps ahead of time, but not work through them
+   */
+  private checkNotPending(profile: EmployeeProfile) {
+    if (ProgressSummary.isPending(profile)) {
+      throw new Error(`${profile.name}'s onboarding starts on ${ProgressSummary.formatDate(profile.startDate)}; steps can't be worked on before then.`);
+    }
+  }
+
+  private formatPendingNotice(profile: EmployeeProfile): string {
+    if (!ProgressSummary.isPending(profile)) {
+      return '';
+    }
+    return `🗓️ Your onboarding starts on ${ProgressSummary.formatDate(profile.startDate)}. ` +
+      `You can look through the steps now; they can be completed from that day on.\n\n`;
+  }
+
+  private checkStatusFilter(status?: string) {
+    if (status && !ONBOARDING_STATUSES.includes(status as OnboardingStatus)) {
+      throw new Error(`Unknown status "${status}". Use one of: ${ONBOARDING_STATUSES.join(', ')}`);
+    }
+  }
+
+  private formatStatus(status: OnboardingStatus): string {
+    switch (status) {
+      case 'pending':
+        return '🗓️ Pending (starts later)';
+      case 'not_started':
+        return '⏸️ Not started';
+      case 'in_progress':
+        return '🔄 In progress';
+      case 'completed':
+        return '✅ Completed';
+    }
+  }
+
+  /**
+   * One line of the get_progress timeline
+   */
+  private formatEvent(event: ProfileEvent, allSteps: OnboardingStep[]): string {
+    const labels: Record<ProfileEvent['type'], string> = {
+      started: '🚀 Started onboarding',
+      completed: '✅ Completed',
+      reopened: '↩️ Reopened',
+      skipped: '⏭️ Skipped',
+      deferred: '🕓 Deferred',
+      edited: '✏️ Profile updated',
+      merged: '🔀 Merged profile',
+      imported: '📥 Imported from roster',
     };
+
+    let line = `${ProgressSummary.formatDateTime(event.at)} ${labels[event.type]}`;
+    if (event.stepId !== undefined) {
+      const step = allSteps.find(s => s.id === event.stepId);
+      line += ` step ${event.stepId}${step ? ` (${step.title})` : ''}`;
+    }
+    if (event.type === 'edited' && event.details?.track) {
+      line += `: track ${event.details.track}`;
+    }
+    if (event.type === 'imported' && event.details?.startDate) {
+      line += `: starts ${ProgressSummary.formatDate(event.details.startDate)}`;
+    }
+    if (event.type === 'merged' && event.details?.from) {
+      line += ` ${event.details.from}`;
+    }
+    if (event.reason) {
+      line += ` - ${event.reason}`;
+    }
+    return line;
+  }
+
+  /**
+   * Why skipping/deferring a step is refused, or null for an unlocked, unfinished optional step
+   */
+  private checkOptionalStepAction(
+    profile: EmployeeProfile,
+    step: OnboardingStep | undefined,
+    stepId: number,
+    track: string,
+    action: 'skip' | 'defer'
+  ): string | null {
+    let reason: string | null = null;
+
+    if (!step) {
+      reason = `Step ${stepId} is not part of the ${track} onboarding track.`;
+    } else if (step.required) {
+      reason = `Step ${stepId} (${step.title}) is required and cannot be ${action === 'skip' ? 'skipped' : 'deferred'}.`;
+    } else if (profile.completedSteps.includes(stepId)) {
+      reason = `Step ${stepId} is already completed.`;
+    } else if (profile.skippedSteps?.includes(stepId)) {
+      reason = `Step ${stepId} was already skipped.`;
+    } else if (!profile.unlockedSteps?.includes(stepId)) {
+      reason = `Step ${stepId} is not unlocked yet.`;
+    }
+
+    return reason;
+  }
+
+  /**
+   * Describe where the employee goes next after a step is skipped or deferred
+   */
+  private formatNextStep(profile: EmployeeProfile, allSteps: OnboardingStep[]): string {
+    const upcomingStep = allSteps.find(step => step.id === profile.currentStep);
+    if (!upcomingStep) {
+      return `🎉 Congratulations! You have completed all onboarding steps!`;
+    }
+
+    let text = `🎯 Next step (${profile.currentStep}/${allSteps.length}): ${upcomingStep.title}\n\n`;
+    text += `${this.formatStep(profile, upcomingStep)}\n\n`;
+    text += this.formatOtherAvailableSteps(profile, allSteps);
+    text += `Type "done" when you complete this step to move to the next one.`;
+    return text;
+  }
+
+  /**
+   * Format a step for the employee, including their checklist progress, with
+   * relative links resolved like in the step resources
+   */
+  private formatStep(profile: EmployeeProfile, step: OnboardingStep): string {
+    return ResourceCatalog.resolveMarkdownLinks(ConfigParser.formatStepForAI(step, profile.stepData[step.id]?.subtasks || {}));
+  }
+
+  /**
+   * List the unlocked steps other than the current one, if any
+   */
+  private formatOtherAvailableSteps(profile: EmployeeProfile, allSteps: OnboardingStep[]): string {
+    const others = this.getUnlockedStepsInOrder(profile, allSteps)
+      .filter(step => step.id !== profile.currentStep);
+
+    if (others.length === 0) {
+      return '';
+    }
+
+    let text = `You can also work on these steps in parallel:\n`;
+    for (const step of others) {
+      text += `- ${this.formatStepListItem(profile, step)}\n`;
+    }
+    return `${text}\n`;
+  }
+
+  /**
+   * Unlocked steps in queue order (deferred steps last)
+   */
+  private getUnlockedStepsInOrder(profile: EmployeeProfile, allSteps: OnboardingStep[]): OnboardingStep[] {
+    return (profile.unlockedSteps || [])
+      .map(id => allSteps.find(step => step.id === id))
+      .filter((step): step is OnboardingStep => !!step);
+  }
+
+  private formatStepListItem(profile: EmployeeProfile, step: OnboardingStep): string {
+    let item = `Step ${step.id}: ${step.title}`;
+    if (!step.required) {
+      item += ' (optional)';
+    }
+    if (profile.deferredSteps?.includes(step.id)) {
+      item += ' (deferred)';
+    }
+    return item;
+  }
+
+  /**
+   * The employee's progress for structuredContent
+   */
+  private async getProgressOutput(profile: EmployeeProfile) {
+    return ToolOutput.progress(await ProgressSummary.summarize(profile));
+  }
+
+  private getTrack(profile: EmployeeProfile): string {
+    return profile.track || BASE_TRACK;
+  }
+
+  async connect(transport: Transport) {
+    await this.server.connect(transport);
   }
 
-  private async getTotalSteps(): Promise<number> {
-    const steps = await ConfigParser.getAllSteps();
-    return steps.length;
+  async close() {
+    await this.server.close();
   }
 
   async run() {
     const transport = new StdioServerTransport();
-    await this.server.connect(transport);
+    await this.connect(transport);
     console.error('Employee Onboarding MCP server running on stdio');
+    await RoleConfig.logEnforcement('stdio');
+
+    process.on('SIGINT', async () => {
+      await this.close();
+      process.exit(0);
+    });
   }
 }
 
-const server = new OnboardingMCPServer();
-server.run().catch(console.error);
+/**
+ * Serve every session from its own server instance over HTTP
+ */
+async function runHttp(options: HttpServerOptions) {
+  const httpServer = new OnboardingHttpServer(() => new OnboardingMCPServer('http'), options);
+  await httpServer.listen();
+  await RoleConfig.logEnforcement('http');
+
+  process.on('SIGINT', async () => {
+    await httpServer.close();
+    process.exit(0);
+  });
+}
+
+if (OnboardingCli.isCommand(process.argv[2])) {
+  OnboardingCli.run(process.argv.slice(2))
+    .then(exitCode => process.exit(exitCode))
+    .catch(error => {
+      console.error(error);
+      process.exit(1);
+    });
+} else {
+  const httpOptions = OnboardingHttpServer.getOptions(process.argv.slice(2));
+  if (httpOptions) {
+    runHttp(httpOptions).catch(error => {
+      console.error(error);
+      process.exit(1);
+    });
+  } else {
+    const server = new OnboardingMCPServer();
+    server.run().catch(console.error);
+  }
+}
@@ -0,0 +1,170 @@
+import { Caller } from './caller-auth.js';
+import { EmployeeIdentifier } from './employee-identifier.js';
+import { RoleConfig } from './role-config.js';
+
+/**
+ * Thrown when a caller's role doesn't allow the tool, or the profile it names
+ */
+export class AccessDeniedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AccessDeniedError';
+  }
+}
+
+/**
+ * What a tool does, which decides who may call it:
+ * - open: anyone
+ * - register: creates a profile; for yourself, or anyone if you're an admin
+ * - view: reads one employee's progress
+ * - progress: moves one employee forward (a buddy nudging their assignee)
+ * - dashboard: lists onboardees; everyone below manager sees only their own mentees
+ * - admin: rewrites history or profiles
+ */
+type ToolAccess = 'open' | 'register' | 'view' | 'progress' | 'dashboard' | 'admin';
+
+const TOOL_ACCESS: Record<string, ToolAccess> = {
+  get_all_steps: 'open',
+  validate_config: 'open',
+  search_onboarding: 'open',
+  whoami: 'open',
+  start_onboarding: 'register',
+  register_employee: 'register',
+  get_current_step: 'view',
+  get_progress: 'view',
+  complete_step: 'progress',
+  complete_subtask: 'progress',
+  skip_step: 'progress',
+  defer_step: 'progress',
+  list_onboardees: 'dashboard',
+  get_buddy_overview: 'dashboard',
+  find_stalled_onboardings: 'dashboard',
+  export_progress: 'dashboard',
+  get_onboarding_analytics: 'dashboard',
+  reopen_step: 'admin',
+  merge_profiles: 'admin',
+  recover_profile: 'admin',
+  import_employees: 'admin',
+};
+
+export class AccessPolicy {
+  /**
+   * The caller for a local (stdio) session: the employee identified on this
+   * machine, once config/roles.json exists. Without it everything stays open.
+   * This is identification, not authentication: whoever controls the
+   * machine's identity sources (identity file, env, git config) is that user.
+   */
+  static async getLocalCaller(tool: string, args: Record<string, any>): Promise<Caller | undefined> {
+    const access = TOOL_ACCESS[tool];
+    if (!access || access === 'open' || !(await RoleConfig.load())) {
+      return undefined;
+    }
+
+    let email: string;
+    try {
+      email = await EmployeeIdentifier.getCurrentEmployeeEmail();
+    } catch (error: any) {
+      // The email a tool is called with can't vouch for who is calling
+      if (error.message === 'REGISTRATION_REQUIRED') {
+        throw new AccessDeniedError(`Roles are enforced (${RoleConfig.getRolesFilePath()}) but this machine can't tell who you are. ` +
+          `Put your email in ~/.onboarding/identity.json (or ONBOARDING_IDENTITY_FILE) and try again.`);
+      }
+      throw error;
+    }
+
+    const normalized = email.trim().toLowerCase();
+    return { email: normalized, role: await RoleConfig.getRole(normalized), method: 'local' };
+  }
+
+  /**
+   * The local caller for a prompt; prompts always read one employee's profile
+   */
+  static async getLocalPromptCaller(): Promise<Caller | undefined> {
+    return this.getLocalCaller('get_progress', {});
+  }
+
+  /**
+   * Check the caller's role allows the tool and fill in their own email where
+   * the tool would otherwise guess it. Unknown tools pass through untouched.
+   */
+  static async scopeToolArguments(tool: string, args: Record<string, any>, caller: Caller): Promise<Record<string, any>> {
+    const access = TOOL_ACCESS[tool];
+
+    switch (access) {
+      case 'register': {
+        const email = args.email || caller.email;
+        if (email.trim().toLowerCase() !== caller.email && caller.role !== 'admin') {
+          throw new AccessDeniedError(`Only admins can use ${tool} for someone else (you are ${caller.email}, role ${caller.role})`);
+        }
+        return { ...args, email };
+      }
+
+      case 'view':
+      case 'progress': {
+        const email = args.email || caller.email;
+        await this.checkProfileAccess(caller, email, access);
+        return { ...args, email };
+      }
+
+      case 'dashboard':
+        if (caller.role === 'admin' || caller.role === 'manager') {
+          return tool === 'get_buddy_overview' ? { ...args, buddyEmail: args.buddyEmail || caller.email } : args;
+        }
+        // Whoever a profile names as buddy sees it, with or without a role entry
+        if (args.buddyEmail && args.buddyEmail.trim().toLowerCase() !== caller.email) {
+          throw new AccessDeniedError(`Buddies only see their own onboardees, not those of ${args.buddyEmail}`);
+        }
+        return { ...args, buddyEmail: caller.email };
+
+      case 'admin':
+        if (caller.role !== 'admin') {
+          throw new AccessDeniedError(`Only admins can use ${tool} (you are ${caller.email}, role ${caller.role})`);
+        }
+        return args;
+
+      default:
+        return args;
+    }
+  }
+
+  /**
+   * Fill in the email of a prompt that is about one employee; prompts only read
+   */
+  static async scopePromptArguments(args: Record<string, string>, caller: Caller): Promise<Record<string, string>> {
+    const email = args.email || caller.email;
+    await this.checkProfileAccess(caller, email, 'view');
+    return { ...args, email };
+  }
+
+  /**
+   * Everyone may act on their own profile and admins on every profile.
+   * Managers may view any profile. The buddy named in a profile's
+   * `buddyEmail` may view and progress it, whatever their role.
+   */
+  static async checkProfileAccess(caller: Caller, email: string | undefined, access: 'view' | 'progress'): Promise<void> {
+    if (!email) {
+      return;
+    }
+
+    const normalized = email.trim().toLowerCase();
+    if (caller.role === 'admin' || normalized === caller.email) {
+      return;
+    }
+    if (caller.role === 'manager' && access === 'view') {
+      return;
+    }
+
+    let buddyEmail: string | undefined;
+    try {
+      buddyEmail = (await EmployeeIdentifier.findEmployeeProfile(normalized))?.buddyEmail;
+    } catch (error) {
+      // An unreadable profile can't prove the caller is its buddy
+    }
+    if (buddyEmail && buddyEmail.toLowerCase() === caller.email) {
+      return;
+    }
+
+    const verb = access === 'view' ? 'view' : 'update';
+    throw new AccessDeniedError(`${caller.email} (role ${caller.role}) is not allowed to ${verb} the onboarding profile of ${normalized}`);
+  }
+}
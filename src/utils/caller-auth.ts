@@ -0,0 +1,155 @@
+import { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import { createHash, createHmac, timingSafeEqual } from 'crypto';
+import * as fs from 'fs/promises';
+import { IncomingHttpHeaders } from 'http';
+import * as path from 'path';
+import { ConfigParser } from './config-parser.js';
+import { Role, RoleConfig } from './role-config.js';
+
+/** 'local' is the employee identified on this machine when serving over stdio */
+export type AuthMethod = 'token' | 'header' | 'local';
+
+/**
+ * The user behind a request: authenticated over HTTP, or identified locally
+ */
+export interface Caller {
+  email: string;
+  role: Role;
+  method: AuthMethod;
+}
+
+/**
+ * config/auth.json
+ */
+export interface AuthConfig {
+  /** Bearer tokens; store the SHA-256 hex digest of the token, not the token itself */
+  tokens: { email: string; sha256: string }[];
+}
+
+/**
+ * Thrown when an HTTP request carries no valid credentials
+ */
+export class AuthenticationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AuthenticationError';
+  }
+}
+
+const EMAIL_HEADER = 'x-onboarding-email';
+const TIMESTAMP_HEADER = 'x-onboarding-timestamp';
+const SIGNATURE_HEADER = 'x-onboarding-signature';
+/** How far a signed header's timestamp may drift from the server clock */
+const SIGNATURE_MAX_AGE_MS = 5 * 60 * 1000;
+
+export class CallerAuth {
+  /**
+   * Map a request to an employee: a bearer token listed in config/auth.json, or
+   * (when ONBOARDING_HEADER_SECRET is set) an email header signed by a trusted proxy
+   */
+  static async authenticate(headers: IncomingHttpHeaders, now: number = Date.now()): Promise<Caller> {
+    const config = await this.loadConfig();
+
+    const authorization = headers.authorization;
+    if (authorization) {
+      const match = authorization.match(/^Bearer\s+(\S+)$/i);
+      if (!match) {
+        throw new AuthenticationError('Authorization header must be "Bearer <token>"');
+      }
+
+      const digest = Buffer.from(this.hashToken(match[1]), 'hex');
+      const entry = config.tokens.find(token => {
+        const expected = Buffer.from(token.sha256, 'hex');
+        return expected.length === digest.length && timingSafeEqual(expected, digest);
+      });
+      if (!entry) {
+        throw new AuthenticationError('Unknown bearer token');
+      }
+      return this.toCaller(entry.email, 'token');
+    }
+
+    const secret = process.env.ONBOARDING_HEADER_SECRET;
+    const email = this.getHeader(headers, EMAIL_HEADER);
+    if (secret && email) {
+      const timestamp = this.getHeader(headers, TIMESTAMP_HEADER) || '';
+      const signature = this.getHeader(headers, SIGNATURE_HEADER) || '';
+      if (!(Math.abs(now - Number(timestamp) * 1000) <= SIGNATURE_MAX_AGE_MS)) {
+        throw new AuthenticationError(`${TIMESTAMP_HEADER} is missing or more than 5 minutes off`);
+      }
+
+      const expected = Buffer.from(this.sign(secret, email, timestamp), 'hex');
+      const actual = Buffer.from(signature, 'hex');
+      if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+        throw new AuthenticationError(`Invalid ${SIGNATURE_HEADER}`);
+      }
+      return this.toCaller(email, 'header');
+    }
+
+    throw new AuthenticationError('Authentication required: send "Authorization: Bearer <token>"');
+  }
+
+  /**
+   * HMAC-SHA256 (hex) of "<email>\n<unix seconds>", as a proxy signs the email header
+   */
+  static sign(secret: string, email: string, timestamp: string): string {
+    return createHmac('sha256', secret).update(`${email.trim().toLowerCase()}\n${timestamp}`).digest('hex');
+  }
+
+  static hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+  }
+
+  /**
+   * Attach the caller to the request so tool handlers receive it as extra.authInfo
+   */
+  static toAuthInfo(caller: Caller, credential: string): AuthInfo {
+    return {
+      token: credential,
+      clientId: caller.email,
+      scopes: [caller.role],
+      extra: { caller },
+    };
+  }
+
+  static fromAuthInfo(authInfo?: AuthInfo): Caller | undefined {
+    return authInfo?.extra?.caller as Caller | undefined;
+  }
+
+  static getAuthFilePath(): string {
+    return process.env.ONBOARDING_AUTH_FILE || path.join(ConfigParser.getConfigPath(), 'auth.json');
+  }
+
+  /**
+   * Read config/auth.json on every request so tokens can be rotated without a
+   * restart; a missing file means no tokens are accepted
+   */
+  private static async loadConfig(): Promise<AuthConfig> {
+    const authFile = this.getAuthFilePath();
+    let raw: Partial<AuthConfig>;
+    try {
+      raw = JSON.parse(await fs.readFile(authFile, 'utf-8'));
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return { tokens: [] };
+      }
+      throw new Error(`Invalid auth config ${authFile}: ${error.message}`);
+    }
+
+    return {
+      tokens: (raw.tokens || []).filter(token => token.email && /^[0-9a-f]{64}$/i.test(token.sha256 || '')),
+    };
+  }
+
+  /**
+   * The role comes from config/roles.json, read per request like the tokens
+   */
+  static async toCaller(email: string, method: AuthMethod): Promise<Caller> {
+    const normalized = email.trim().toLowerCase();
+    return { email: normalized, role: await RoleConfig.getRole(normalized), method };
+  }
+
+  private static getHeader(headers: IncomingHttpHeaders, name: string): string | undefined {
+    const value = headers[name];
+    return Array.isArray(value) ? value[0] : value;
+  }
+}
@@ -0,0 +1,219 @@
+export interface ChecklistItem {
+  /** Stable ID built from the section and item text, e.g. "project-overview/review-our-team-charter-and-goals" */
+  id: string;
+  text: string;
+  section?: string;
+  required: boolean;
+}
+
+export interface SubtaskState {
+  completedAt: string;
+  notes?: string;
+}
+
+const MAX_SLUG_LENGTH = 48;
+
+interface ChecklistEntry {
+  section?: string;
+  text: string;
+  /** Written as a checkbox ("- [ ]" or <input type="checkbox">) */
+  checkbox: boolean;
+}
+
+export class ChecklistParser {
+  /**
+   * Parse the bullets under "## What You Need to Do", grouped by their
+   * "### 1. **Section:**" sub-headings. Only checkbox bullets ("- [ ]") are
+   * required, unless requireAll opts the whole list in.
+   */
+  static parseMarkdown(content: string, requireAll = false): ChecklistItem[] {
+    const lines = content.split(/\r?\n/);
+    const start = lines.findIndex(line => /^##\s+What You Need to Do/i.test(line));
+    if (start < 0) {
+      return [];
+    }
+
+    const entries: ChecklistEntry[] = [];
+    let section: string | undefined;
+
+    for (const line of lines.slice(start + 1)) {
+      if (/^##\s/.test(line)) {
+        break;
+      }
+
+      const heading = line.match(/^###\s+(.+)$/);
+      if (heading) {
+        section = this.cleanText(heading[1].replace(/^\d+\.\s*/, ''));
+        continue;
+      }
+
+      const item = line.match(/^\s*(?:[-*]|\d+\.)\s+(\[[ xX]\]\s+)?(.+)$/);
+      if (item) {
+        entries.push({ section, text: item[2].trim(), checkbox: !!item[1] });
+      }
+    }
+
+    return this.buildItems(entries, requireAll);
+  }
+
+  /**
+   * Parse the nested lists inside <div class="instructions">: each top-level
+   * item with a nested list is a section, its nested items are the sub-tasks.
+   * Items with a checkbox input are required, or all of them with
+   * data-checklist="required" on the div.
+   */
+  static parseHTML(html: string): ChecklistItem[] {
+    const instructions = html.match(/<div([^>]*class="instructions"[^>]*)>([\s\S]*?)<\/div>/i);
+    if (!instructions) {
+      return [];
+    }
+    const requireAll = /\bdata-checklist="required"/i.test(instructions[1]);
+    const body = instructions[2];
+
+    interface ListNode { text: string; children: ListNode[] }
+    const root: ListNode = { text: '', children: [] };
+    const stack: ListNode[] = [root];
+    const tagRegex = /<(\/?)(ul|ol|li)\b[^>]*>/gi;
+    let lastIndex = 0;
+    let match;
+
+    while ((match = tagRegex.exec(body)) !== null) {
+      const current = stack[stack.length - 1];
+      // Only text directly inside an item (before its nested list) belongs to it
+      if (current !== root && current.children.length === 0) {
+        current.text += body.slice(lastIndex, match.index);
+      }
+      lastIndex = tagRegex.lastIndex;
+
+      const [, closing, tag] = match;
+      if (tag.toLowerCase() !== 'li') {
+        continue;
+      }
+      if (!closing) {
+        const node: ListNode = { text: '', children: [] };
+        current.children.push(node);
+        stack.push(node);
+      } else if (stack.length > 1) {
+        stack.pop();
+      }
+    }
+
+    const entries: ChecklistEntry[] = [];
+    const toEntry = (node: ListNode, section?: string): ChecklistEntry => ({
+      section,
+      text: this.htmlToText(node.text),
+      checkbox: /<input\b[^>]*type="checkbox"/i.test(node.text),
+    });
+    const collect = (node: ListNode, section?: string) => {
+      for (const child of node.children) {
+        if (child.children.length > 0) {
+          collect(child, section);
+        } else {
+          entries.push(toEntry(child, section));
+        }
+      }
+    };
+
+    for (const top of root.children) {
+      if (top.children.length > 0) {
+        collect(top, this.cleanText(this.htmlToText(top.text)));
+      } else {
+        entries.push(toEntry(top));
+      }
+    }
+
+    return this.buildItems(entries.filter(entry => entry.text), requireAll);
+  }
+
+  /**
+   * Render the checklist with checkmarks for get_current_step
+   */
+  static formatChecklist(items: ChecklistItem[], state: Record<string, SubtaskState> = {}): string {
+    const done = items.filter(item => state[item.id]).length;
+    let text = `## Checklist (${done}/${items.length} done)\n`;
+    let section: string | undefined;
+
+    for (const item of items) {
+      if (item.section !== section) {
+        section = item.section;
+        if (section) {
+          text += `\n**${section}**\n`;
+        }
+      }
+      const mark = state[item.id] ? '[x]' : '[ ]';
+      const required = item.required ? ' (required)' : '';
+      text += `- ${mark} ${item.text}${required} \`${item.id}\`\n`;
+    }
+
+    return text;
+  }
+
+  /**
+   * Required sub-tasks that have not been checked off yet
+   */
+  static getPendingRequired(items: ChecklistItem[], state: Record<string, SubtaskState> = {}): ChecklistItem[] {
+    return items.filter(item => item.required && !state[item.id]);
+  }
+
+  /**
+   * Everything stays trackable; only checkbox items (or all items, when the
+   * step opts in) hold up complete_step, and "(optional)" always opts out
+   */
+  private static buildItems(entries: ChecklistEntry[], requireAll: boolean): ChecklistItem[] {
+    const used = new Set<string>();
+
+    return entries.map(entry => {
+      const base = [entry.section, entry.text]
+        .filter((part): part is string => !!part)
+        .map(part => this.slugify(part))
+        .join('/');
+
+      let id = base;
+      for (let suffix = 2; used.has(id); suffix++) {
+        id = `${base}-${suffix}`;
+      }
+      used.add(id);
+
+      return {
+        id,
+        text: entry.text,
+        section: entry.section,
+        required: (entry.checkbox || requireAll) && !/\(optional\)/i.test(entry.text),
+      };
+    });
+  }
+
+  private static slugify(text: string): string {
+    const slug = text
+      .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '');
+
+    if (slug.length <= MAX_SLUG_LENGTH) {
+      return slug || 'item';
+    }
+    const cut = slug.slice(0, MAX_SLUG_LENGTH);
+    return cut.slice(0, cut.lastIndexOf('-') > 0 ? cut.lastIndexOf('-') : MAX_SLUG_LENGTH);
+  }
+
+  /**
+   * Strip Markdown emphasis and a trailing colon from section titles
+   */
+  private static cleanText(text: string): string {
+    return text.replace(/\*\*/g, '').replace(/:\s*$/, '').trim();
+  }
+
+  private static htmlToText(html: string): string {
+    return html
+      .replace(/<[^>]+>/g, '')
+      .replace(/&nbsp;/g, ' ')
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+      .replace(/&quot;/g, '"')
+      .replace(/&#39;/g, "'")
+      .replace(/&amp;/g, '&')
+      .replace(/\s+/g, ' ')
+      .trim();
+  }
+}
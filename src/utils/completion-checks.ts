@@ -0,0 +1,228 @@
+import { exec } from 'child_process';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+
+export interface DataCheck {
+  type: 'data';
+  /** Key the employee must provide in complete_step's `data` */
+  field: string;
+  /** Regular expression the value must match */
+  pattern?: string;
+  description?: string;
+}
+
+export interface CommandCheck {
+  type: 'command';
+  /** Local command that must exit with code 0 */
+  command: string;
+  timeoutSeconds?: number;
+  description?: string;
+}
+
+export interface FileCheck {
+  type: 'file';
+  /** File that must exist (supports ~ for the home directory) */
+  path: string;
+  description?: string;
+}
+
+export type CompletionCheck = DataCheck | CommandCheck | FileCheck;
+
+export interface CheckResult {
+  type: CompletionCheck['type'];
+  description: string;
+  passed: boolean;
+  message: string;
+  /** Not run because it can't see the employee's machine; it doesn't block completion */
+  skipped?: boolean;
+}
+
+const DEFAULT_COMMAND_TIMEOUT_SECONDS = 30;
+
+export class CompletionChecker {
+  /**
+   * Validate check definitions from step config; invalid entries are
+   * returned as errors and left out
+   */
+  static parseChecks(raw: unknown): { checks: CompletionCheck[]; errors: string[] } {
+    const checks: CompletionCheck[] = [];
+    const errors: string[] = [];
+
+    if (!Array.isArray(raw)) {
+      return { checks, errors: ['checks must be a list of { type: data | command | file, ... } entries'] };
+    }
+
+    raw.forEach((entry, index) => {
+      const label = `checks[${index}]`;
+      if (!entry || typeof entry !== 'object') {
+        errors.push(`${label} must be an object`);
+        return;
+      }
+
+      const description = typeof entry.description === 'string' ? entry.description : undefined;
+      switch (entry.type) {
+        case 'data':
+          if (typeof entry.field !== 'string' || !entry.field.trim()) {
+            errors.push(`${label} (data) needs a "field"`);
+            return;
+          }
+          if (entry.pattern !== undefined) {
+            try {
+              new RegExp(String(entry.pattern));
+            } catch (error: any) {
+              errors.push(`${label} (data) has an invalid pattern: ${error.message}`);
+              return;
+            }
+          }
+          checks.push({
+            type: 'data',
+            field: entry.field.trim(),
+            pattern: entry.pattern !== undefined ? String(entry.pattern) : undefined,
+            description,
+          });
+          return;
+
+        case 'command':
+          if (typeof entry.command !== 'string' || !entry.command.trim()) {
+            errors.push(`${label} (command) needs a "command"`);
+            return;
+          }
+          if (entry.timeoutSeconds !== undefined && !(typeof entry.timeoutSeconds === 'number' && entry.timeoutSeconds > 0)) {
+            errors.push(`${label} (command) timeoutSeconds must be a positive number`);
+            return;
+          }
+          checks.push({ type: 'command', command: entry.command, timeoutSeconds: entry.timeoutSeconds, description });
+          return;
+
+        case 'file':
+          if (typeof entry.path !== 'string' || !entry.path.trim()) {
+            errors.push(`${label} (file) needs a "path"`);
+            return;
+          }
+          checks.push({ type: 'file', path: entry.path.trim(), description });
+          return;
+
+        default:
+          errors.push(`${label} has unknown type ${JSON.stringify(entry.type)} (expected data, command or file)`);
+      }
+    });
+
+    return { checks, errors };
+  }
+
+  /**
+   * Run every check against the data passed to complete_step. Command and file
+   * checks look at the machine running the server, so a shared (HTTP) server
+   * sets onEmployeeMachine to false and they are skipped as not verified.
+   */
+  static async runChecks(
+    checks: CompletionCheck[],
+    data: Record<string, any> | null = {},
+    options: { onEmployeeMachine?: boolean } = {}
+  ): Promise<CheckResult[]> {
+    const onEmployeeMachine = options.onEmployeeMachine ?? true;
+    const results: CheckResult[] = [];
+    for (const check of checks) {
+      // Clients may send data: null; that is the same as no data
+      results.push(await this.runCheck(check, data ?? {}, onEmployeeMachine));
+    }
+    return results;
+  }
+
+  /**
+   * Human-readable description of what a check requires
+   */
+  static describe(check: CompletionCheck): string {
+    if (check.description) {
+      return check.description;
+    }
+
+    switch (check.type) {
+      case 'data':
+        return check.pattern
+          ? `Provide "${check.field}" matching ${check.pattern}`
+          : `Provide "${check.field}"`;
+      case 'command':
+        return `\`${check.command}\` succeeds`;
+      case 'file':
+        return `${check.path} exists`;
+    }
+  }
+
+  /**
+   * List a step's checks so the assistant knows what to collect before completing it
+   */
+  static formatChecks(checks: CompletionCheck[]): string {
+    let text = '## Completion checks\n\n';
+    text += 'These are verified automatically when the step is marked complete:\n\n';
+
+    for (const check of checks) {
+      text += `- ${this.describe(check)}`;
+      if (check.type === 'data') {
+        text += ` (pass \`data.${check.field}\` to complete_step)`;
+      }
+      text += '\n';
+    }
+
+    return text;
+  }
+
+  private static async runCheck(check: CompletionCheck, data: Record<string, any>, onEmployeeMachine: boolean): Promise<CheckResult> {
+    const description = this.describe(check);
+    const result = (passed: boolean, message: string): CheckResult => ({ type: check.type, description, passed, message });
+
+    if (check.type !== 'data' && !onEmployeeMachine) {
+      return {
+        ...result(true, `Not verified: ${check.type} checks only run on a local (stdio) server, on the employee's own machine. ` +
+          `This server is shared over HTTP, so the employee is trusted to have done this.`),
+        skipped: true,
+      };
+    }
+
+    switch (check.type) {
+      case 'data': {
+        const value = data[check.field];
+        if (value === undefined || value === null || String(value).trim() === '') {
+          return result(false, `Missing data field "${check.field}"`);
+        }
+        if (check.pattern && !new RegExp(check.pattern).test(String(value))) {
+          return result(false, `"${check.field}" value ${JSON.stringify(String(value))} does not match ${check.pattern}`);
+        }
+        return result(true, `"${check.field}" provided`);
+      }
+
+      case 'command': {
+        const timeoutSeconds = check.timeoutSeconds ?? DEFAULT_COMMAND_TIMEOUT_SECONDS;
+        return new Promise<CheckResult>(resolve => {
+          exec(check.command, { timeout: timeoutSeconds * 1000, windowsHide: true }, (error) => {
+            if (!error) {
+              resolve(result(true, `\`${check.command}\` exited with code 0`));
+            } else if (error.killed) {
+              resolve(result(false, `\`${check.command}\` timed out after ${timeoutSeconds}s`));
+            } else {
+              resolve(result(false, `\`${check.command}\` exited with code ${error.code ?? 'unknown'}`));
+            }
+          });
+        });
+      }
+
+      case 'file': {
+        const filePath = this.expandPath(check.path);
+        try {
+          await fs.access(filePath);
+          return result(true, `${filePath} exists`);
+        } catch (error) {
+          return result(false, `${filePath} does not exist`);
+        }
+      }
+    }
+  }
+
+  private static expandPath(filePath: string): string {
+    if (filePath === '~' || filePath.startsWith('~/') || filePath.startsWith('~\\')) {
+      return path.join(os.homedir(), filePath.slice(1));
+    }
+    return path.resolve(filePath);
+  }
+}
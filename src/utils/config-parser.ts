@@ -1,5 +1,11 @@
+import { readdirSync, watch, FSWatcher } from 'fs';
 import * as fs from 'fs/promises';
 import * as path from 'path';
+import YAML from 'yaml';
+import { DurationParser, ExpectedDuration } from './duration-parser.js';
+import { CompletionCheck, CompletionChecker } from './completion-checks.js';
+import { ChecklistItem, ChecklistParser, SubtaskState } from './checklist-parser.js';
+import { HtmlToMarkdown } from './html-to-markdown.js';
 
 export interface OnboardingStep {
   id: number;
@@ -11,217 +17,798 @@ export interface OnboardingStep {
   isMarkdown: boolean;
   resources?: string[];
   completionCriteria?: string;
+  checks?: CompletionCheck[];
+  subtasks?: ChecklistItem[];
+  dependsOn?: number[];
+  estimatedTime?: string;
+  expectedDuration?: ExpectedDuration;
+  owner?: string;
+  tags?: string[];
+  sourceFile?: string;
+}
+
+export type DiagnosticSeverity = 'error' | 'warning' | 'info';
+
+export interface ConfigDiagnostic {
+  severity: DiagnosticSeverity;
+  file: string;
+  stepId?: number;
+  field?: string;
+  message: string;
 }
 
 export interface OnboardingConfig {
   steps: OnboardingStep[];
+  diagnostics: ConfigDiagnostic[];
+}
+
+export interface OnboardingTrack {
+  name: string;
+  description?: string;
+  departments?: string[];
+  removeSteps?: number[];
+}
+
+/**
+ * Metadata a step Markdown file can declare in its YAML front-matter
+ */
+interface StepFrontMatter {
+  id?: number;
+  title?: string;
+  type?: string;
+  required?: boolean;
+  estimatedTime?: string;
+  owner?: string;
+  tags?: string[];
+  completionCriteria?: string;
+  checks?: CompletionCheck[];
+  dependsOn?: number[];
+  /** Every checklist item must be checked off, not only "- [ ]" ones */
+  checklistRequired?: boolean;
 }
 
+const FRONT_MATTER_FIELDS = [
+  'id', 'title', 'type', 'required', 'estimatedTime', 'owner', 'tags', 'completionCriteria', 'checks', 'dependsOn',
+  'checklistRequired'
+];
+
+export const BASE_TRACK = 'base';
+
+/** The first <h1>/<h2> of an HTML step is its title */
+const HTML_TITLE_REGEX = /<h[12][^>]*>([^<]+)<\/h[12]>/i;
+
 export class ConfigParser {
   private static configPath: string = process.env.ONBOARDING_CONFIG_PATH || 
     path.join(process.cwd(), 'config');
 
+  private static reportedDiagnostics = new Set<string>();
+
+  /** Parsed configuration per track, kept until a file under the config path changes */
+  private static trackCache = new Map<string, Promise<OnboardingConfig>>();
+  private static tracksCache: Promise<OnboardingTrack[]> | null = null;
+  /** One watcher per config folder; null until the first load and after every change */
+  private static watchers: FSWatcher[] | null = null;
+  /** Set once fs.watch has failed; configuration is then read from disk on every call */
+  private static watchUnavailable = false;
+
+  /**
+   * Root of the onboarding configuration (ONBOARDING_CONFIG_PATH)
+   */
+  static getConfigPath(): string {
+    return this.configPath;
+  }
+
   /**
    * Load all onboarding configuration from Markdown and HTML files
    */
   static async loadConfiguration(): Promise<OnboardingConfig> {
+    return this.cached(this.trackCache, BASE_TRACK, () => this.parseConfiguration());
+  }
+
+  /**
+   * Drop every parsed step and track, so the next call reads the files again.
+   * The watchers are rebuilt too, picking up folders added since.
+   */
+  static invalidateCache(): void {
+    this.trackCache.clear();
+    this.tracksCache = null;
+    for (const watcher of this.watchers || []) {
+      watcher.close();
+    }
+    this.watchers = null;
+  }
+
+  /**
+   * Serve a value from the cache while the config folder is watched. Without
+   * a watcher edits couldn't be noticed, so nothing is cached.
+   */
+  private static cached<T>(cache: Map<string, Promise<T>>, key: string, load: () => Promise<T>): Promise<T> {
+    if (!this.watchConfiguration()) {
+      return load();
+    }
+
+    let value = cache.get(key);
+    if (!value) {
+      value = load();
+      cache.set(key, value);
+      // Don't keep a failed load around
+      value.catch(() => {
+        if (cache.get(key) === value) {
+          cache.delete(key);
+        }
+      });
+    }
+    return value;
+  }
+
+  /**
+   * Watch ONBOARDING_CONFIG_PATH and every folder below it so content authors'
+   * edits flush the cache; returns false when the folders can't be watched.
+   * (Recursive fs.watch isn't available on Linux before Node 20 and can't be unref'd.)
+   */
+  private static watchConfiguration(): boolean {
+    if (this.watchers) {
+      return true;
+    }
+    if (this.watchUnavailable) {
+      return false;
+    }
+
+    const watchers: FSWatcher[] = [];
+    try {
+      for (const folder of this.listFolders(this.configPath)) {
+        const watcher = watch(folder, () => this.invalidateCache());
+        watcher.on('error', () => this.invalidateCache());
+        // The watchers alone must not keep the process (or a CLI command) alive
+        watcher.unref();
+        watchers.push(watcher);
+      }
+    } catch (error: any) {
+      watchers.forEach(watcher => watcher.close());
+      this.watchUnavailable = true;
+      console.warn(`Not caching onboarding configuration: cannot watch ${this.configPath} (${error.message})`);
+      return false;
+    }
+
+    this.watchers = watchers;
+    return true;
+  }
+
+  private static listFolders(folder: string): string[] {
+    const subfolders = readdirSync(folder, { withFileTypes: true })
+      .filter(entry => entry.isDirectory())
+      .flatMap(entry => this.listFolders(path.join(folder, entry.name)));
+    return [folder, ...subfolders];
+  }
+
+  private static async parseConfiguration(): Promise<OnboardingConfig> {
     const stepsPath = path.join(this.configPath, 'steps');
+    const diagnostics: ConfigDiagnostic[] = [];
 
-    const steps = await this.loadSteps(stepsPath);
+    const steps = await this.loadSteps(stepsPath, diagnostics);
+    this.reportDiagnostics(diagnostics);
 
     return {
-      steps: steps.sort((a, b) => a.id - b.id)
+      steps: steps.sort((a, b) => a.id - b.id),
+      diagnostics
     };
   }
 
   /**
    * Load step configurations from Markdown and HTML files (prefer Markdown)
    */
-  private static async loadSteps(stepsPath: string): Promise<OnboardingStep[]> {
+  private static async loadSteps(stepsPath: string, diagnostics: ConfigDiagnostic[]): Promise<OnboardingStep[]> {
+    const parsed = await this.parseStepFiles(stepsPath, diagnostics);
+    const markdownIds = new Set(parsed.filter(step => step.isMarkdown).map(step => step.id));
+
+    // HTML files are only used for steps that don't have Markdown versions
+    return parsed.filter(step => step.isMarkdown || !markdownIds.has(step.id));
+  }
+
+  /**
+   * Parse every step file in a folder (relative to the config path), including
+   * HTML files shadowed by a Markdown version. Used by config validation.
+   */
+  static async loadStepFiles(folder: string = 'steps'): Promise<OnboardingConfig> {
+    const diagnostics: ConfigDiagnostic[] = [];
+    const steps = await this.parseStepFiles(path.join(this.configPath, folder), diagnostics);
+    return { steps, diagnostics };
+  }
+
+  private static async parseStepFiles(stepsPath: string, diagnostics: ConfigDiagnostic[]): Promise<OnboardingStep[]> {
+    const folder = path.relative(this.configPath, stepsPath).split(path.sep).join('/') || '.';
+
+    let files: string[];
     try {
-      const files = await fs.readdir(stepsPath);
-      const steps: OnboardingStep[] = [];
-      const stepIds = new Set<number>();
-
-      // First, load Markdown files
-      const markdownFiles = files.filter(f => f.endsWith('.md'));
-      for (const file of markdownFiles) {
-        try {
-          const filePath = path.join(stepsPath, file);
-          const content = await fs.readFile(filePath, 'utf-8');
-          const step = this.parseStepMarkdown(content, file);
-          if (step) {
-            steps.push(step);
-            stepIds.add(step.id);
-          }
-        } catch (error) {
-          console.warn(`Failed to load step file ${file}:`, error);
-        }
-      }
+      files = (await fs.readdir(stepsPath)).sort();
+    } catch (error: any) {
+      diagnostics.push({ severity: 'error', file: folder, message: `Failed to load steps directory: ${error.message}` });
+      return [];
+    }
 
-      // Then, load HTML files only for steps that don't have Markdown versions
-      const htmlFiles = files.filter(f => f.endsWith('.html'));
-      for (const file of htmlFiles) {
-        try {
-          const idMatch = file.match(/step-(\d+)/);
-          const id = idMatch ? parseInt(idMatch[1]) : 0;
-          
-          if (!stepIds.has(id)) {
-            const filePath = path.join(stepsPath, file);
-            const content = await fs.readFile(filePath, 'utf-8');
-            const step = this.parseStepHTML(content, file);
-            if (step) {
-              steps.push(step);
-            }
-          }
-        } catch (error) {
-          console.warn(`Failed to load step file ${file}:`, error);
+    const steps: OnboardingStep[] = [];
+    // Markdown files first, then HTML
+    const stepFiles = [...files.filter(f => f.endsWith('.md')), ...files.filter(f => f.endsWith('.html'))];
+    for (const file of stepFiles) {
+      const relativePath = path.posix.join(folder, file);
+      try {
+        const content = await fs.readFile(path.join(stepsPath, file), 'utf-8');
+        const step = file.endsWith('.md')
+          ? this.parseStepMarkdown(content, relativePath, diagnostics)
+          : this.parseStepHTML(content, relativePath, diagnostics);
+        if (step) {
+          steps.push(step);
         }
+      } catch (error: any) {
+        diagnostics.push({ severity: 'error', file: relativePath, message: `Failed to load step file: ${error.message}` });
       }
-
-      return steps;
-    } catch (error) {
-      console.warn('Failed to load steps directory:', error);
-      return [];
     }
+
+    return steps;
   }
 
   /**
-   * Parse individual step Markdown file
+   * Parse individual step Markdown file. Front-matter metadata wins; the
+   * title heading and "**Step N of M** | **...**" header are the fallback.
    */
-  private static parseStepMarkdown(content: string, filename: string): OnboardingStep | null {
-    try {
-      // Extract step ID from filename (e.g., "step-1-account-setup.md" -> 1)
-      const idMatch = filename.match(/step-(\d+)/);
-      const id = idMatch ? parseInt(idMatch[1]) : 0;
+  private static parseStepMarkdown(rawContent: string, file: string, diagnostics: ConfigDiagnostic[]): OnboardingStep | null {
+    const { frontMatter: rawFrontMatter, body: content } = this.splitFrontMatter(rawContent, file, diagnostics);
+    const frontMatter = this.readFrontMatter(rawFrontMatter, file, diagnostics);
+
+    // Extract step ID from filename (e.g., "step-1-account-setup.md" -> 1)
+    const fileId = this.parseFileStepId(file);
+    if (frontMatter.id !== undefined && fileId !== undefined && frontMatter.id !== fileId) {
+      diagnostics.push({
+        severity: 'error',
+        file,
+        stepId: frontMatter.id,
+        field: 'id',
+        message: `Front-matter id ${frontMatter.id} does not match the file name (step-${fileId}); using ${frontMatter.id}`
+      });
+    }
+
+    const id = frontMatter.id ?? fileId;
+    if (id === undefined) {
+      diagnostics.push({
+        severity: 'error',
+        file,
+        field: 'id',
+        message: 'No step id: add "id" to the front-matter or name the file "step-N-*.md"'
+      });
+      return null;
+    }
 
-      // Extract title from first # heading
-      const titleMatch = content.match(/^#\s+(.+)$/m);
-      const title = titleMatch ? titleMatch[1].trim() : `Step ${id}`;
+    const report = (severity: DiagnosticSeverity, field: string, message: string) =>
+      diagnostics.push({ severity, file, stepId: id, field, message });
+
+    // Extract title from first # heading
+    const titleMatch = content.match(/^#\s+(.+)$/m);
+    const heading = titleMatch ? titleMatch[1].trim() : undefined;
+    if (frontMatter.title && heading && frontMatter.title !== heading) {
+      report('warning', 'title', `Front-matter title "${frontMatter.title}" differs from the heading "${heading}"; using the front-matter title`);
+    }
+    let title = frontMatter.title ?? heading;
+    if (!title) {
+      report('error', 'title', `No title found (front-matter "title" or "# heading"); using "Step ${id}"`);
+      title = `Step ${id}`;
+    }
 
-      // Extract description from content after title and before first ##
-      const descMatch = content.match(/^#\s+.+?\n\n(.+?)(?=\n##|\n\n##|$)/s);
-      const description = descMatch ? descMatch[1].trim().split('\n')[0] : '';
+    // Extract description from content after title and before first ##
+    const descMatch = content.match(/^#\s+.+?\n\n(.+?)(?=\n##|\n\n##|$)/s);
+    const description = descMatch ? descMatch[1].trim().split('\n')[0] : '';
 
-      // Extract step type and required status from header line
-      const headerMatch = content.match(/\*\*Step \d+ of \d+\*\*\s*\|\s*\*\*(.+?)\*\*/);
-      const isRequired = headerMatch ? headerMatch[1].toLowerCase().includes('required') : true;
-      
-      // Default type for markdown files
-      const type = 'general';
+    // Extract required status and estimated time from header line
+    const headerMatch = content.match(/\*\*Step \d+ of \d+\*\*\s*\|\s*\*\*(.+?)\*\*/);
+    const headerRequired = headerMatch ? headerMatch[1].toLowerCase().includes('required') : undefined;
+    if (frontMatter.required !== undefined && headerRequired !== undefined && frontMatter.required !== headerRequired) {
+      report('warning', 'required', `Front-matter says required: ${frontMatter.required} but the header says "${headerMatch![1]}"; using the front-matter value`);
+    }
+    let required = frontMatter.required ?? headerRequired;
+    if (required === undefined) {
+      report('warning', 'required', 'No "required" in front-matter and no "**Step N of M** | **Required/Optional Step**" header; treating the step as required');
+      required = true;
+    }
 
-      // Extract completion criteria section
-      const criteriaMatch = content.match(/##\s+This step is complete when:(.*?)(?=\n##|$)/s);
-      const completionCriteria = criteriaMatch ? criteriaMatch[1].trim() : undefined;
+    const estimateMatch = content.match(/\*\*Estimated Time:\s*(.+?)\*\*/);
+    const headerEstimate = estimateMatch ? estimateMatch[1].trim() : undefined;
+    if (frontMatter.estimatedTime && headerEstimate && frontMatter.estimatedTime !== headerEstimate) {
+      report('warning', 'estimatedTime', `Front-matter estimatedTime "${frontMatter.estimatedTime}" differs from the header "${headerEstimate}"; using the front-matter value`);
+    }
 
-      // Extract resource links (already in markdown format)
-      const resourceLinks = this.extractMarkdownLinks(content);
+    const estimatedTime = frontMatter.estimatedTime ?? headerEstimate;
+    const expectedDuration = DurationParser.parseEstimatedTime(estimatedTime);
+    if (estimatedTime && !expectedDuration) {
+      report('warning', 'estimatedTime', `Could not read a duration from estimatedTime "${estimatedTime}"`);
+    }
 
-      return {
-        id,
-        title,
-        description,
-        type,
-        required: isRequired,
-        content: content,
-        isMarkdown: true,
-        resources: resourceLinks.length > 0 ? resourceLinks : undefined,
-        completionCriteria
-      };
-    } catch (error) {
-      console.warn(`Failed to parse step Markdown ${filename}:`, error);
-      return null;
+    let type = frontMatter.type;
+    if (!type) {
+      report('info', 'type', 'No "type" in front-matter; using "general"');
+      type = 'general';
     }
+
+    // Extract completion criteria section
+    const criteriaMatch = content.match(/##\s+This step is complete when:(.*?)(?=\n##|$)/s);
+    const completionCriteria = frontMatter.completionCriteria ?? (criteriaMatch ? criteriaMatch[1].trim() : undefined);
+
+    // Extract resource links (already in markdown format)
+    const resourceLinks = this.extractMarkdownLinks(content);
+
+    // Extract checklist items from the "What You Need to Do" section
+    const subtasks = ChecklistParser.parseMarkdown(content, frontMatter.checklistRequired);
+
+    return {
+      id,
+      title,
+      description,
+      type,
+      required,
+      content: content,
+      isMarkdown: true,
+      resources: resourceLinks.length > 0 ? resourceLinks : undefined,
+      completionCriteria,
+      checks: frontMatter.checks,
+      subtasks: subtasks.length > 0 ? subtasks : undefined,
+      dependsOn: frontMatter.dependsOn,
+      estimatedTime,
+      expectedDuration,
+      owner: frontMatter.owner,
+      tags: frontMatter.tags,
+      sourceFile: file
+    };
   }
 
   /**
    * Parse individual step HTML file
    */
-  private static parseStepHTML(content: string, filename: string): OnboardingStep | null {
-    try {
-      // Extract step ID from filename (e.g., "step-1-account-setup.html" -> 1)
-      const idMatch = filename.match(/step-(\d+)/);
-      const id = idMatch ? parseInt(idMatch[1]) : 0;
+  private static parseStepHTML(content: string, file: string, diagnostics: ConfigDiagnostic[]): OnboardingStep | null {
+    // Extract step ID from data attribute or filename (e.g., "step-1-account-setup.html" -> 1)
+    const fileId = this.parseFileStepId(file);
+    const attrMatch = content.match(/data-step-id="(\d+)"/);
+    const attrId = attrMatch ? parseInt(attrMatch[1]) : undefined;
+    if (attrId !== undefined && fileId !== undefined && attrId !== fileId) {
+      diagnostics.push({
+        severity: 'error',
+        file,
+        stepId: attrId,
+        field: 'id',
+        message: `data-step-id="${attrId}" does not match the file name (step-${fileId}); using ${attrId}`
+      });
+    }
+
+    const id = attrId ?? fileId;
+    if (id === undefined) {
+      diagnostics.push({
+        severity: 'error',
+        file,
+        field: 'id',
+        message: 'No step id: add data-step-id to the step element or name the file "step-N-*.html"'
+      });
+      return null;
+    }
+
+    // Extract title from h1 or h2 tag
+    const titleMatch = content.match(HTML_TITLE_REGEX);
+    let title = titleMatch ? titleMatch[1].trim() : undefined;
+    if (!title) {
+      diagnostics.push({ severity: 'error', file, stepId: id, field: 'title', message: `No <h1>/<h2> title found; using "Step ${id}"` });
+      title = `Step ${id}`;
+    }
 
-      // Extract title from h1 or h2 tag
-      const titleMatch = content.match(/<h[12][^>]*>([^<]+)<\/h[12]>/i);
-      const title = titleMatch ? titleMatch[1].trim() : `Step ${id}`;
+    // Extract description from first paragraph
+    const descMatch = content.match(/<p[^>]*>([^<]+)<\/p>/i);
+    const description = descMatch ? descMatch[1].trim() : '';
 
-      // Extract description from first paragraph
-      const descMatch = content.match(/<p[^>]*>([^<]+)<\/p>/i);
-      const description = descMatch ? descMatch[1].trim() : '';
+    // Extract step type from data attribute
+    const typeMatch = content.match(/data-step-type="([^"]+)"/);
+    const type = typeMatch ? typeMatch[1] : 'general';
+
+    // Check if required
+    const requiredMatch = content.match(/data-required="(true|false)"/);
+    if (!requiredMatch) {
+      diagnostics.push({ severity: 'warning', file, stepId: id, field: 'required', message: 'No data-required="true|false" attribute; treating the step as required' });
+    }
+    const required = requiredMatch ? requiredMatch[1] === 'true' : true;
+
+    // Extract step dependencies (e.g. data-depends-on="1,2")
+    const dependsMatch = content.match(/data-depends-on="([^"]*)"/);
+    const dependsOn = dependsMatch ? this.parseStepIdList(dependsMatch[1].split(',')) : undefined;
+
+    // Extract completion criteria
+    const criteriaMatch = content.match(/<div[^>]*class="completion-criteria"[^>]*>(.*?)<\/div>/is);
+    // Same shape as the Markdown section: the list without its "This step is complete when:" heading
+    const completionCriteria = criteriaMatch
+      ? HtmlToMarkdown.convert(criteriaMatch[1]).replace(/^#{1,6} .*\n*/, '').trim()
+      : undefined;
+
+    // Extract machine-checkable criteria (<script type="application/json" class="completion-checks">[...]</script>)
+    let checks: CompletionCheck[] | undefined;
+    const checksMatch = content.match(/<script[^>]*class="completion-checks"[^>]*>(.*?)<\/script>/is);
+    if (checksMatch) {
+      try {
+        const parsedChecks = CompletionChecker.parseChecks(JSON.parse(checksMatch[1]));
+        for (const error of parsedChecks.errors) {
+          diagnostics.push({ severity: 'error', file, stepId: id, field: 'checks', message: `Invalid completion check ignored: ${error}` });
+        }
+        checks = parsedChecks.checks;
+      } catch (error: any) {
+        diagnostics.push({ severity: 'error', file, stepId: id, field: 'checks', message: `Invalid completion-checks JSON, it was ignored: ${error.message}` });
+      }
+    }
+
+    // Extract estimated time (e.g. <strong>Estimated Time:</strong> 4-6 hours ...)
+    const estimateMatch = content.match(/<div[^>]*class="estimated-time"[^>]*>(.*?)<\/div>/is);
+    const estimatedTime = estimateMatch
+      ? HtmlToMarkdown.convert(estimateMatch[1]).replace(/\*\*/g, '').replace(/^Estimated Time:\s*/i, '').trim() || undefined
+      : undefined;
+    const expectedDuration = DurationParser.parseEstimatedTime(estimatedTime);
+    if (estimatedTime && !expectedDuration) {
+      diagnostics.push({ severity: 'warning', file, stepId: id, field: 'estimatedTime', message: `Could not read a duration from estimated time "${estimatedTime}"` });
+    }
 
-      // Extract step type from data attribute
-      const typeMatch = content.match(/data-step-type="([^"]+)"/);
-      const type = typeMatch ? typeMatch[1] : 'general';
+    // Extract resource links
+    const resourceLinks = this.extractResourceLinks(content);
 
-      // Check if required
-      const requiredMatch = content.match(/data-required="(true|false)"/);
-      const required = requiredMatch ? requiredMatch[1] === 'true' : true;
+    // Extract checklist items from the instructions lists
+    const subtasks = ChecklistParser.parseHTML(content);
+
+    return {
+      id,
+      title,
+      description,
+      type,
+      required,
+      content: content,
+      isMarkdown: false,
+      resources: resourceLinks.length > 0 ? resourceLinks : undefined,
+      completionCriteria,
+      checks,
+      subtasks: subtasks.length > 0 ? subtasks : undefined,
+      dependsOn,
+      estimatedTime,
+      expectedDuration,
+      sourceFile: file
+    };
+  }
+
+  /**
+   * List available tracks: the shared base track (config/steps) plus every
+   * folder under config/tracks
+   */
+  static async listTracks(): Promise<OnboardingTrack[]> {
+    if (!this.watchConfiguration()) {
+      return this.readTracks();
+    }
+    if (!this.tracksCache) {
+      this.tracksCache = this.readTracks();
+    }
+    return this.tracksCache;
+  }
+
+  private static async readTracks(): Promise<OnboardingTrack[]> {
+    const tracks: OnboardingTrack[] = [
+      { name: BASE_TRACK, description: 'Shared onboarding steps for every employee' }
+    ];
+
+    try {
+      const entries = await fs.readdir(path.join(this.configPath, 'tracks'), { withFileTypes: true });
+      for (const entry of entries) {
+        if (entry.isDirectory() && entry.name !== BASE_TRACK) {
+          tracks.push(await this.readTrack(entry.name));
+        }
+      }
+    } catch (error) {
+      // No tracks folder, only the base track is available
+    }
 
-      // Extract completion criteria
-      const criteriaMatch = content.match(/<div[^>]*class="completion-criteria"[^>]*>(.*?)<\/div>/is);
-      const completionCriteria = criteriaMatch ? this.stripHTML(criteriaMatch[1]).trim() : undefined;
+    return tracks;
+  }
 
-      // Extract resource links
-      const resourceLinks = this.extractResourceLinks(content);
+  /**
+   * Find a track by name, base included; null when there is no such track
+   */
+  static async loadTrack(name: string): Promise<OnboardingTrack | null> {
+    return (await this.listTracks()).find(track => track.name === name) || null;
+  }
 
+  /**
+   * Load a track manifest (config/tracks/<name>/track.json)
+   */
+  private static async readTrack(name: string): Promise<OnboardingTrack> {
+    const trackPath = path.join(this.configPath, 'tracks', name);
+    try {
+      const manifest = await fs.readFile(path.join(trackPath, 'track.json'), 'utf-8');
+      const track = JSON.parse(manifest);
       return {
-        id,
-        title,
-        description,
-        type,
-        required,
-        content: content,
-        isMarkdown: false,
-        resources: resourceLinks.length > 0 ? resourceLinks : undefined,
-        completionCriteria
+        name,
+        description: track.description,
+        departments: track.departments,
+        removeSteps: track.removeSteps
       };
     } catch (error) {
-      console.warn(`Failed to parse step HTML ${filename}:`, error);
-      return null;
+      // A track folder without a manifest only adds/overrides steps
+      return { name };
     }
   }
 
+  /**
+   * Pick the track for an employee: an explicitly requested track wins,
+   * otherwise the first track listing the employee's department, otherwise base
+   */
+  static async resolveTrackName(requested?: string, department?: string): Promise<string> {
+    const tracks = await this.listTracks();
+
+    if (requested) {
+      const track = tracks.find(t => t.name.toLowerCase() === requested.toLowerCase());
+      if (!track) {
+        throw new Error(`Unknown onboarding track "${requested}". Available tracks: ${tracks.map(t => t.name).join(', ')}`);
+      }
+      return track.name;
+    }
+
+    if (department) {
+      const dept = department.toLowerCase();
+      const track = tracks.find(t => t.departments?.some(d => d.toLowerCase() === dept));
+      if (track) {
+        return track.name;
+      }
+    }
+
+    return BASE_TRACK;
+  }
 
   /**
-   * Get specific step by ID
+   * Resolve the configuration for a track: base steps, overridden or extended
+   * by the track's own step files, minus the track's removed steps
    */
-  static async getStep(stepId: number): Promise<OnboardingStep | null> {
+  static async loadTrackConfiguration(trackName: string): Promise<OnboardingConfig> {
+    const track = await this.loadTrack(trackName);
+    if (!track || track.name === BASE_TRACK) {
+      if (!track) {
+        console.warn(`Unknown onboarding track "${trackName}", falling back to ${BASE_TRACK}`);
+      }
+      return this.loadConfiguration();
+    }
+
+    return this.cached(this.trackCache, track.name, () => this.parseTrackConfiguration(track));
+  }
+
+  private static async parseTrackConfiguration(track: OnboardingTrack): Promise<OnboardingConfig> {
+    const trackName = track.name;
     const config = await this.loadConfiguration();
+
+    const stepsById = new Map<number, OnboardingStep>();
+    for (const step of config.steps) {
+      stepsById.set(step.id, step);
+    }
+
+    const trackDiagnostics: ConfigDiagnostic[] = [];
+    const trackSteps = await this.loadSteps(path.join(this.configPath, 'tracks', trackName), trackDiagnostics);
+    for (const step of trackSteps) {
+      stepsById.set(step.id, step);
+    }
+
+    for (const stepId of track.removeSteps || []) {
+      if (!stepsById.delete(stepId)) {
+        trackDiagnostics.push({
+          severity: 'warning',
+          file: path.posix.join('tracks', trackName, 'track.json'),
+          stepId,
+          field: 'removeSteps',
+          message: `removeSteps lists step ${stepId}, which is not a base step`
+        });
+      }
+    }
+    this.reportDiagnostics(trackDiagnostics);
+
+    return {
+      steps: Array.from(stepsById.values()).sort((a, b) => a.id - b.id),
+      diagnostics: [...config.diagnostics, ...trackDiagnostics]
+    };
+  }
+
+  /**
+   * Get specific step by ID
+   */
+  static async getStep(stepId: number, track: string = BASE_TRACK): Promise<OnboardingStep | null> {
+    const config = await this.loadTrackConfiguration(track);
     return config.steps.find(step => step.id === stepId) || null;
   }
 
   /**
    * Get all steps
    */
-  static async getAllSteps(): Promise<OnboardingStep[]> {
-    const config = await this.loadConfiguration();
+  static async getAllSteps(track: string = BASE_TRACK): Promise<OnboardingStep[]> {
+    const config = await this.loadTrackConfiguration(track);
     return config.steps;
   }
 
 
   /**
-   * Format step content for AI display
+   * Format step content for AI display, with the employee's checklist state if given
    */
-  static formatStepForAI(step: OnboardingStep): string {
+  static formatStepForAI(step: OnboardingStep, subtaskState?: Record<string, SubtaskState>): string {
+    let checks = step.checks && step.checks.length > 0
+      ? `\n\n${CompletionChecker.formatChecks(step.checks)}`
+      : '';
+    if (subtaskState && step.subtasks) {
+      checks += `\n\n${ChecklistParser.formatChecklist(step.subtasks, subtaskState)}`;
+    }
+
+    return this.renderStep(step) + checks;
+  }
+
+  /**
+   * The step document as Markdown: Markdown steps as written, HTML steps
+   * converted (headings, lists, links and sections kept) under a title heading
+   */
+  static renderStep(step: OnboardingStep): string {
     if (step.isMarkdown) {
-      // For Markdown files, return the content as-is since it's already properly formatted
-      return step.content;
-    } else {
-      // For HTML files, convert to readable text format
-      let formatted = `# ${step.title}\n\n`;
-      
-      if (step.description) {
-        formatted += `${step.description}\n\n`;
+      return step.content.trimEnd();
+    }
+
+    // The <h1>/<h2> title becomes the document's heading
+    return `# ${step.title}\n\n${HtmlToMarkdown.convert(step.content.replace(HTML_TITLE_REGEX, ''))}`;
+  }
+
+  /**
+   * Split an optional YAML front-matter block (between --- lines) from the top of a Markdown file
+   */
+  private static splitFrontMatter(
+    content: string,
+    file: string,
+    diagnostics: ConfigDiagnostic[]
+  ): { frontMatter: Record<string, unknown>; body: string } {
+    const match = content.match(/^---\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/);
+    if (!match) {
+      return { frontMatter: {}, body: content };
+    }
+
+    const body = content.slice(match[0].length).replace(/^\s+/, '');
+    try {
+      const parsed = YAML.parse(match[1]);
+      if (parsed === null || parsed === undefined) {
+        return { frontMatter: {}, body };
+      }
+      if (typeof parsed !== 'object' || Array.isArray(parsed)) {
+        diagnostics.push({ severity: 'error', file, message: 'Front-matter must be a YAML mapping of field: value pairs; it was ignored' });
+        return { frontMatter: {}, body };
+      }
+      return { frontMatter: parsed, body };
+    } catch (error: any) {
+      diagnostics.push({ severity: 'error', file, message: `Invalid YAML front-matter, it was ignored: ${error.message}` });
+      return { frontMatter: {}, body };
+    }
+  }
+
+  /**
+   * Check front-matter field types; invalid fields are reported and left unset
+   * so the heuristics fill them in
+   */
+  private static readFrontMatter(raw: Record<string, unknown>, file: string, diagnostics: ConfigDiagnostic[]): StepFrontMatter {
+    const frontMatter: StepFrontMatter = {};
+    const invalid = (field: string, expected: string) =>
+      diagnostics.push({
+        severity: 'error',
+        file,
+        field,
+        message: `Front-matter "${field}" must be ${expected}; got ${JSON.stringify(raw[field])}`
+      });
+    const isText = (value: unknown): value is string => typeof value === 'string' && value.trim() !== '';
+    const isTextList = (value: unknown): value is string[] => Array.isArray(value) && value.every(isText);
+
+    for (const field of Object.keys(raw)) {
+      if (!FRONT_MATTER_FIELDS.includes(field)) {
+        diagnostics.push({ severity: 'warning', file, field, message: `Unknown front-matter field "${field}" was ignored` });
+      }
+    }
+
+    if (raw.id !== undefined) {
+      if (Number.isInteger(raw.id) && (raw.id as number) > 0) {
+        frontMatter.id = raw.id as number;
+      } else {
+        invalid('id', 'a positive whole number');
       }
+    }
+
+    for (const field of ['title', 'type', 'estimatedTime', 'owner'] as const) {
+      if (raw[field] !== undefined) {
+        if (isText(raw[field])) {
+          frontMatter[field] = (raw[field] as string).trim();
+        } else {
+          invalid(field, 'a non-empty string');
+        }
+      }
+    }
+
+    for (const field of ['required', 'checklistRequired'] as const) {
+      if (raw[field] !== undefined) {
+        if (typeof raw[field] === 'boolean') {
+          frontMatter[field] = raw[field] as boolean;
+        } else {
+          invalid(field, 'true or false');
+        }
+      }
+    }
 
-      // Convert HTML to readable text
-      const textContent = this.stripHTML(step.content);
-      formatted += textContent;
+    if (raw.tags !== undefined) {
+      if (isText(raw.tags)) {
+        frontMatter.tags = [raw.tags.trim()];
+      } else if (isTextList(raw.tags)) {
+        frontMatter.tags = raw.tags.map(tag => tag.trim());
+      } else {
+        invalid('tags', 'a string or a list of strings');
+      }
+    }
 
-      return formatted;
+    if (raw.completionCriteria !== undefined) {
+      if (isText(raw.completionCriteria)) {
+        frontMatter.completionCriteria = raw.completionCriteria.trim();
+      } else if (isTextList(raw.completionCriteria)) {
+        frontMatter.completionCriteria = raw.completionCriteria.map(item => `- ✅ ${item.trim()}`).join('\n');
+      } else {
+        invalid('completionCriteria', 'a string or a list of strings');
+      }
     }
+
+    if (raw.checks !== undefined) {
+      const { checks, errors } = CompletionChecker.parseChecks(raw.checks);
+      for (const error of errors) {
+        diagnostics.push({ severity: 'error', file, field: 'checks', message: `Invalid completion check ignored: ${error}` });
+      }
+      frontMatter.checks = checks;
+    }
+
+    if (raw.dependsOn !== undefined) {
+      const items = Array.isArray(raw.dependsOn) ? raw.dependsOn : [raw.dependsOn];
+      if (items.every(item => Number.isInteger(item) && item > 0)) {
+        frontMatter.dependsOn = items as number[];
+      } else {
+        invalid('dependsOn', 'a list of step ids');
+      }
+    }
+
+    return frontMatter;
+  }
+
+  /**
+   * Read the step ID from a "step-N-..." file name
+   */
+  private static parseFileStepId(file: string): number | undefined {
+    const idMatch = path.basename(file).match(/step-(\d+)/);
+    return idMatch ? parseInt(idMatch[1]) : undefined;
+  }
+
+  /**
+   * Log errors and warnings once per process instead of on every reload
+   */
+  private static reportDiagnostics(diagnostics: ConfigDiagnostic[]): void {
+    for (const diagnostic of diagnostics) {
+      if (diagnostic.severity === 'info') {
+        continue;
+      }
+
+      const field = diagnostic.field ? ` [${diagnostic.field}]` : '';
+      const line = `Config ${diagnostic.severity} in ${diagnostic.file}${field}: ${diagnostic.message}`;
+      if (!this.reportedDiagnostics.has(line)) {
+        this.reportedDiagnostics.add(line);
+        console.warn(line);
+      }
+    }
+  }
+
+  /**
+   * Normalize a list of step IDs (front-matter array or split attribute value)
+   */
+  private static parseStepIdList(value: unknown): number[] | undefined {
+    if (value === undefined || value === null) {
+      return undefined;
+    }
+
+    const items = Array.isArray(value) ? value : [value];
+    return items
+      .map(item => typeof item === 'number' ? item : parseInt(String(item).trim()))
+      .filter(id => !isNaN(id));
   }
 
   /**
@@ -259,21 +846,11 @@ export class ConfigParser {
   }
 
   /**
-   * Strip HTML tags and return clean text
-   */
-  private static stripHTML(html: string): string {
-    return html
-      .replace(/<script\b[^<]*(?:(?!<\/script>)<[^<]*)*<\/script>/gi, '')
-      .replace(/<style\b[^<]*(?:(?!<\/style>)<[^<]*)*<\/style>/gi, '')
-      .replace(/<[^>]+>/g, '')
-      .replace(/\s+/g, ' ')
-      .trim();
-  }
-
-  /**
-   * Reload configuration (useful for development)
+   * Flush the cache and parse the configuration again, for when the watcher
+   * may have missed a change (e.g. on network drives)
    */
   static async reloadConfiguration(): Promise<OnboardingConfig> {
+    this.invalidateCache();
     return this.loadConfiguration();
   }
 }
@@ -0,0 +1,304 @@
+import { BASE_TRACK, ConfigDiagnostic, ConfigParser, OnboardingStep } from './config-parser.js';
+import { StepGraph } from './step-graph.js';
+
+export interface ValidationReport {
+  stepCount: number;
+  fileCount: number;
+  diagnostics: ConfigDiagnostic[];
+  errorCount: number;
+  warningCount: number;
+}
+
+export class ConfigValidator {
+  /**
+   * Lint the step files in config/steps (plus every track's own step files)
+   */
+  static async validate(): Promise<ValidationReport> {
+    const { steps: files, diagnostics } = await ConfigParser.loadStepFiles('steps');
+    const markdown = files.filter(step => step.isMarkdown);
+    const html = files.filter(step => !step.isMarkdown);
+
+    diagnostics.push(...this.checkDuplicateIds(markdown));
+    diagnostics.push(...this.checkDuplicateIds(html));
+
+    // The resolved list is what employees see: Markdown wins over HTML
+    const resolved = [...markdown];
+    for (const step of html) {
+      if (!resolved.some(s => s.id === step.id)) {
+        resolved.push(step);
+      }
+    }
+    resolved.sort((a, b) => a.id - b.id);
+
+    diagnostics.push(...this.checkGaps(resolved));
+    diagnostics.push(...this.checkHeaders(markdown, resolved.length));
+    diagnostics.push(...this.checkCompletionCriteria(resolved));
+    diagnostics.push(...this.checkDependencies(resolved));
+    diagnostics.push(...this.checkMarkdownHtmlPairs(markdown, html));
+
+    for (const track of await ConfigParser.listTracks()) {
+      if (track.name !== BASE_TRACK) {
+        const trackFiles = await ConfigParser.loadStepFiles(`tracks/${track.name}`);
+        diagnostics.push(...trackFiles.diagnostics);
+        diagnostics.push(...this.checkDuplicateIds(trackFiles.steps.filter(step => step.isMarkdown)));
+        diagnostics.push(...this.checkDuplicateIds(trackFiles.steps.filter(step => !step.isMarkdown)));
+
+        const trackConfig = await ConfigParser.loadTrackConfiguration(track.name);
+        diagnostics.push(...trackConfig.diagnostics.filter(d => d.file.startsWith('tracks/')));
+        diagnostics.push(...this.checkDependencies(trackConfig.steps));
+      }
+    }
+
+    const unique = this.dedupe(diagnostics);
+    return {
+      stepCount: resolved.length,
+      fileCount: files.length,
+      diagnostics: unique,
+      errorCount: unique.filter(d => d.severity === 'error').length,
+      warningCount: unique.filter(d => d.severity === 'warning').length
+    };
+  }
+
+  /**
+   * Render a report for the CLI and the validate_config tool
+   */
+  static formatReport(report: ValidationReport): string {
+    let text = `**Config validation:** ${report.stepCount} steps from ${report.fileCount} files, `;
+    text += `${report.errorCount} errors, ${report.warningCount} warnings\n\n`;
+
+    const visible = report.diagnostics.filter(d => d.severity !== 'info');
+    if (visible.length === 0) {
+      text += '✅ No problems found.\n';
+      return text;
+    }
+
+    for (const severity of ['error', 'warning'] as const) {
+      for (const diagnostic of visible.filter(d => d.severity === severity)) {
+        const icon = severity === 'error' ? '❌' : '⚠️';
+        const field = diagnostic.field ? ` [${diagnostic.field}]` : '';
+        text += `${icon} ${diagnostic.file}${field}: ${diagnostic.message}\n`;
+      }
+    }
+
+    return text;
+  }
+
+  private static checkDuplicateIds(steps: OnboardingStep[]): ConfigDiagnostic[] {
+    const diagnostics: ConfigDiagnostic[] = [];
+    const byId = new Map<number, OnboardingStep[]>();
+    for (const step of steps) {
+      byId.set(step.id, [...(byId.get(step.id) || []), step]);
+    }
+
+    for (const [id, duplicates] of byId) {
+      if (duplicates.length > 1) {
+        const files = duplicates.map(step => step.sourceFile).join(', ');
+        for (const step of duplicates) {
+          diagnostics.push({
+            severity: 'error',
+            file: step.sourceFile || '',
+            stepId: id,
+            field: 'id',
+            message: `Duplicate step id ${id} (${files})`
+          });
+        }
+      }
+    }
+
+    return diagnostics;
+  }
+
+  private static checkGaps(steps: OnboardingStep[]): ConfigDiagnostic[] {
+    const diagnostics: ConfigDiagnostic[] = [];
+    const ids = new Set(steps.map(step => step.id));
+
+    for (let id = 1; id <= steps.length; id++) {
+      if (!ids.has(id)) {
+        diagnostics.push({
+          severity: 'warning',
+          file: 'steps',
+          stepId: id,
+          field: 'id',
+          message: `Step ids are not contiguous: step ${id} is missing (found ${[...ids].sort((a, b) => a - b).join(', ')})`
+        });
+      }
+    }
+
+    return diagnostics;
+  }
+
+  /**
+   * Check "**Step N of M**" headers against the step's id and the step count
+   */
+  private static checkHeaders(steps: OnboardingStep[], total: number): ConfigDiagnostic[] {
+    const diagnostics: ConfigDiagnostic[] = [];
+
+    for (const step of steps) {
+      const headerMatch = step.content.match(/\*\*Step (\d+) of (\d+)\*\*/);
+      if (!headerMatch) {
+        continue;
+      }
+
+      const headerId = parseInt(headerMatch[1]);
+      const headerTotal = parseInt(headerMatch[2]);
+      if (headerId !== step.id) {
+        diagnostics.push({
+          severity: 'error',
+          file: step.sourceFile || '',
+          stepId: step.id,
+          field: 'header',
+          message: `Header says "Step ${headerId} of ${headerTotal}" but this is step ${step.id}`
+        });
+      }
+      if (headerTotal !== total) {
+        diagnostics.push({
+          severity: 'error',
+          file: step.sourceFile || '',
+          stepId: step.id,
+          field: 'header',
+          message: `Header says "Step ${headerId} of ${headerTotal}" but there are ${total} steps`
+        });
+      }
+    }
+
+    return diagnostics;
+  }
+
+  private static checkCompletionCriteria(steps: OnboardingStep[]): ConfigDiagnostic[] {
+    return steps
+      .filter(step => !step.completionCriteria || !step.completionCriteria.trim())
+      .map(step => ({
+        severity: 'warning' as const,
+        file: step.sourceFile || '',
+        stepId: step.id,
+        field: 'completionCriteria',
+        message: 'No completion criteria ("## This step is complete when:" section, completion-criteria div or front-matter)'
+      }));
+  }
+
+  /**
+   * Check that dependencies exist and that no step can never unlock
+   */
+  private static checkDependencies(steps: OnboardingStep[]): ConfigDiagnostic[] {
+    const diagnostics: ConfigDiagnostic[] = [];
+    const ids = new Set(steps.map(step => step.id));
+
+    for (const step of steps) {
+      for (const dependency of step.dependsOn || []) {
+        if (dependency === step.id) {
+          diagnostics.push({
+            severity: 'error',
+            file: step.sourceFile || '',
+            stepId: step.id,
+            field: 'dependsOn',
+            message: `Step ${step.id} depends on itself`
+          });
+        } else if (!ids.has(dependency)) {
+          diagnostics.push({
+            severity: 'warning',
+            file: step.sourceFile || '',
+            stepId: step.id,
+            field: 'dependsOn',
+            message: `Step ${step.id} depends on step ${dependency}, which does not exist; the dependency is ignored`
+          });
+        }
+      }
+    }
+
+    // Completing everything that unlocks must eventually reach every step
+    const done: number[] = [];
+    let unlocked = StepGraph.getUnlockedSteps(steps, done);
+    while (unlocked.length > 0) {
+      done.push(...unlocked);
+      unlocked = StepGraph.getUnlockedSteps(steps, done);
+    }
+    for (const step of steps.filter(s => !done.includes(s.id))) {
+      diagnostics.push({
+        severity: 'error',
+        file: step.sourceFile || '',
+        stepId: step.id,
+        field: 'dependsOn',
+        message: `Step ${step.id} can never be unlocked (circular dependsOn)`
+      });
+    }
+
+    return diagnostics;
+  }
+
+  /**
+   * Compare Markdown and HTML versions of the same step
+   */
+  private static checkMarkdownHtmlPairs(markdown: OnboardingStep[], html: OnboardingStep[]): ConfigDiagnostic[] {
+    const diagnostics: ConfigDiagnostic[] = [];
+
+    for (const md of markdown) {
+      const htmlStep = html.find(step => step.id === md.id);
+      if (!htmlStep) {
+        continue;
+      }
+
+      const differences: string[] = [];
+      if (md.title !== htmlStep.title) {
+        differences.push(`title ("${md.title}" vs "${htmlStep.title}")`);
+      }
+      if (md.required !== htmlStep.required) {
+        differences.push(`required (${md.required} vs ${htmlStep.required})`);
+      }
+      if (md.type !== 'general' && md.type !== htmlStep.type) {
+        differences.push(`type ("${md.type}" vs "${htmlStep.type}")`);
+      }
+      if (this.normalizeCriteria(md.completionCriteria) !== this.normalizeCriteria(htmlStep.completionCriteria)) {
+        differences.push('completion criteria');
+      }
+
+      const mdLinks = this.linkTargets(md.resources);
+      const htmlLinks = this.linkTargets(htmlStep.resources);
+      const onlyMd = mdLinks.filter(url => !htmlLinks.includes(url));
+      const onlyHtml = htmlLinks.filter(url => !mdLinks.includes(url));
+      if (onlyMd.length > 0 || onlyHtml.length > 0) {
+        const parts: string[] = [];
+        if (onlyMd.length > 0) parts.push(`only in Markdown: ${onlyMd.join(', ')}`);
+        if (onlyHtml.length > 0) parts.push(`only in HTML: ${onlyHtml.join(', ')}`);
+        differences.push(`links (${parts.join('; ')})`);
+      }
+
+      if (differences.length > 0) {
+        diagnostics.push({
+          severity: 'warning',
+          file: md.sourceFile || '',
+          stepId: md.id,
+          message: `Markdown and HTML versions (${htmlStep.sourceFile}) differ in ${differences.join(', ')}`
+        });
+      }
+    }
+
+    return diagnostics;
+  }
+
+  private static normalizeCriteria(criteria?: string): string {
+    return (criteria || '')
+      .replace(/This step is complete when:/i, '')
+      .replace(/[✅*\-•]/g, ' ')
+      .replace(/\s+/g, ' ')
+      .trim()
+      .toLowerCase();
+  }
+
+  private static linkTargets(resources?: string[]): string[] {
+    return Array.from(new Set((resources || [])
+      .map(link => link.match(/\]\(([^)]+)\)/)?.[1])
+      .filter((url): url is string => !!url)));
+  }
+
+  private static dedupe(diagnostics: ConfigDiagnostic[]): ConfigDiagnostic[] {
+    const seen = new Set<string>();
+    return diagnostics.filter(d => {
+      const key = `${d.severity}|${d.file}|${d.field}|${d.message}`;
+      if (seen.has(key)) {
+        return false;
+      }
+      seen.add(key);
+      return true;
+    });
+  }
+}
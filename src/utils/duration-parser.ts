@@ -0,0 +1,120 @@
+/**
+ * Expected duration of a step, parsed from its "Estimated Time" text
+ */
+export interface ExpectedDuration {
+  /** Hands-on effort, when the estimate states it in minutes/hours */
+  effortHours?: { min: number; max: number };
+  /** Calendar days the step is expected to take from start to finish */
+  calendarDays: { min: number; max: number };
+}
+
+const UNIT_DAYS: Record<string, number> = {
+  minute: 1 / (24 * 60),
+  hour: 1 / 24,
+  day: 1,
+  week: 7,
+  month: 30,
+};
+
+const HOURS_PER_WORKDAY = 8;
+
+export class DurationParser {
+  /**
+   * Parse estimates such as "6-8 hours (spread over first 2 weeks)" or
+   * "45 minutes (initial setup) + 3-5 days (approval & delivery)".
+   * Parts joined with "+" add up; "spread over ..." sets the calendar span
+   * of its part, otherwise effort hours count as whole working days.
+   */
+  static parseEstimatedTime(text?: string): ExpectedDuration | undefined {
+    if (!text) {
+      return undefined;
+    }
+
+    const parts = this.splitOutsideParentheses(text, '+');
+    let effort: { min: number; max: number } | undefined;
+    const calendar = { min: 0, max: 0 };
+    let understood = false;
+
+    for (const part of parts) {
+      const spread = part.match(/spread over\s+(?:the\s+)?(?:first\s+)?(?:(\d+(?:\.\d+)?)(?:\s*-\s*(\d+(?:\.\d+)?))?\s+)?(minute|hour|day|week|month)s?/i);
+      const quantity = this.findQuantity(part.replace(/\(.*\)/s, ''));
+
+      if (!quantity && !spread) {
+        continue;
+      }
+      understood = true;
+
+      if (quantity && (quantity.unit === 'minute' || quantity.unit === 'hour')) {
+        const hours = quantity.unit === 'hour' ? 1 : 1 / 60;
+        effort = {
+          min: (effort?.min || 0) + quantity.min * hours,
+          max: (effort?.max || 0) + quantity.max * hours,
+        };
+      }
+
+      if (spread) {
+        const min = spread[1] ? parseFloat(spread[1]) : 1;
+        const max = spread[2] ? parseFloat(spread[2]) : min;
+        const unitDays = UNIT_DAYS[spread[3].toLowerCase()];
+        calendar.min += min * unitDays;
+        calendar.max += max * unitDays;
+      } else if (quantity && (quantity.unit === 'minute' || quantity.unit === 'hour')) {
+        // Focused effort without a stated span: whole working days, at least one
+        const hours = quantity.unit === 'hour' ? 1 : 1 / 60;
+        calendar.min += Math.max(1, Math.ceil((quantity.min * hours) / HOURS_PER_WORKDAY));
+        calendar.max += Math.max(1, Math.ceil((quantity.max * hours) / HOURS_PER_WORKDAY));
+      } else if (quantity) {
+        calendar.min += quantity.min * UNIT_DAYS[quantity.unit];
+        calendar.max += quantity.max * UNIT_DAYS[quantity.unit];
+      }
+    }
+
+    if (!understood) {
+      return undefined;
+    }
+
+    return {
+      effortHours: effort,
+      calendarDays: calendar,
+    };
+  }
+
+  /**
+   * Find the first "N unit" or "N-M unit" quantity in a piece of text
+   */
+  private static findQuantity(text: string): { min: number; max: number; unit: string } | undefined {
+    const match = text.match(/(\d+(?:\.\d+)?)(?:\s*-\s*(\d+(?:\.\d+)?))?\s*(minute|min|hour|hr|day|week|month)s?\b/i);
+    if (!match) {
+      return undefined;
+    }
+
+    const unit = match[3].toLowerCase();
+    const min = parseFloat(match[1]);
+    return {
+      min,
+      max: match[2] ? parseFloat(match[2]) : min,
+      unit: unit === 'min' ? 'minute' : unit === 'hr' ? 'hour' : unit,
+    };
+  }
+
+  private static splitOutsideParentheses(text: string, separator: string): string[] {
+    const parts: string[] = [];
+    let depth = 0;
+    let current = '';
+
+    for (const char of text) {
+      if (char === '(') depth++;
+      if (char === ')') depth = Math.max(0, depth - 1);
+
+      if (char === separator && depth === 0) {
+        parts.push(current);
+        current = '';
+      } else {
+        current += char;
+      }
+    }
+    parts.push(current);
+
+    return parts.map(part => part.trim()).filter(Boolean);
+  }
+}
@@ -1,6 +1,18 @@
 import * as os from 'os';
-import * as fs from 'fs/promises';
 import * as path from 'path';
+import { IdentityAmbiguousError, IdentityResolution, IdentityResolver } from './identity-resolver.js';
+import { ProfileCorruptError, ProfileQuery, ProfileStore, ProfileStores } from './profile-store.js';
+import { StringDistance } from './string-distance.js';
+
+export type ProfileEventType = 'started' | 'completed' | 'reopened' | 'skipped' | 'deferred' | 'edited' | 'merged' | 'imported';
+
+export interface ProfileEvent {
+  type: ProfileEventType;
+  at: string;
+  stepId?: number;
+  reason?: string;
+  details?: Record<string, any>;
+}
 
 export interface EmployeeProfile {
   email: string;
@@ -8,196 +20,242 @@ export interface EmployeeProfile {
   startDate: string;
   buddyEmail?: string;
   department?: string;
+  track?: string;
   currentStep: number;
   completedSteps: number[];
+  unlockedSteps?: number[];
+  skippedSteps?: number[];
+  deferredSteps?: number[];
   stepData: Record<string, any>;
+  history?: ProfileEvent[];
   metadata: {
     createdAt: string;
     lastUpdated: string;
     version: string;
+    /** Incremented on every save; used to detect concurrent updates */
+    revision?: number;
   };
 }
 
+/**
+ * Thrown when no profile exists for an email; lists existing emails that are close matches
+ */
+export class ProfileNotFoundError extends Error {
+  constructor(public email: string, public suggestions: string[]) {
+    super(`No onboarding profile found for ${email}.` +
+      (suggestions.length > 0 ? ` Did you mean ${suggestions.join(' or ')}?` : '') +
+      ` New employees start with start_onboarding or register_employee.`);
+    this.name = 'ProfileNotFoundError';
+  }
+}
+
 export class EmployeeIdentifier {
   private static dataPath: string = process.env.ONBOARDING_DATA_PATH || 
     path.join(process.cwd(), 'data', 'employees');
+  private static store: Promise<ProfileStore> | null = null;
 
   /**
-   * Get the current employee's email using various detection methods
+   * Directory holding the profile store (ONBOARDING_DATA_PATH)
    */
-  static async getCurrentEmployeeEmail(): Promise<string> {
-    // Method 1: Check environment variables (corporate setup)
-    const envEmail = process.env.USER_EMAIL || 
-                     process.env.USERPRINCIPALNAME || 
-                     process.env.OFFICE_365_EMAIL;
-    
-    if (envEmail && this.isValidEmail(envEmail)) {
-      return envEmail.toLowerCase();
+  static getDataPath(): string {
+    return this.dataPath;
+  }
+
+  /**
+   * The profile store selected by ONBOARDING_STORAGE, opened on first use
+   */
+  static getStore(): Promise<ProfileStore> {
+    if (!this.store) {
+      this.store = ProfileStores.fromEnvironment(this.dataPath);
     }
-    
-    // Method 2: Check Windows domain user
-    const username = process.env.USERNAME;
-    const domain = process.env.USERDOMAIN;
-    
-    if (username && domain && domain !== username) {
-      // Common corporate email patterns
-      const possibleEmails = [
-        `${username}@${domain.toLowerCase()}.com`,
-        `${username}@${domain.toLowerCase()}.onmicrosoft.com`,
-        `${username}@company.com` // fallback
-      ];
-      
-      for (const email of possibleEmails) {
-        if (this.isValidEmail(email)) {
-          return email;
-        }
-      }
+    return this.store;
+  }
+
+  /**
+   * Get the current employee's email from the identity resolver chain.
+   * Throws IdentityAmbiguousError instead of guessing, and
+   * REGISTRATION_REQUIRED when no source knows the employee.
+   */
+  static async getCurrentEmployeeEmail(): Promise<string> {
+    const resolution = await this.resolveIdentity();
+
+    if (resolution.status === 'resolved') {
+      return resolution.email!;
     }
-    
-    // Method 3: Check for existing profile files (return most recent)
-    try {
-      const files = await fs.readdir(this.dataPath);
-      const jsonFiles = files.filter(f => f.endsWith('.json') && f !== 'progress-index.json');
-      
-      if (jsonFiles.length === 1) {
-        // Only one profile exists, assume it's this user
-        return jsonFiles[0].replace('.json', '');
-      }
-    } catch (error) {
-      // Data directory doesn't exist yet, that's fine
+    if (resolution.status === 'ambiguous') {
+      throw new IdentityAmbiguousError(resolution);
     }
-    
-    // Method 4: Interactive registration required
     throw new Error('REGISTRATION_REQUIRED');
   }
 
   /**
-   * Get or create employee profile
+   * Run the identity resolver chain, preferring candidates that already have a profile
+   */
+  static async resolveIdentity(): Promise<IdentityResolution> {
+    const store = await this.getStore();
+    return IdentityResolver.resolve(async email => !!(await store.get(email).catch(() => null)));
+  }
+
+  /**
+   * Get an existing employee profile; throws ProfileNotFoundError with close
+   * matches instead of creating one
    */
   static async getEmployeeProfile(email?: string): Promise<EmployeeProfile> {
     const employeeEmail = email || await this.getCurrentEmployeeEmail();
-    const profilePath = path.join(this.dataPath, `${employeeEmail}.json`);
-    
-    try {
-      const data = await fs.readFile(profilePath, 'utf-8');
-      return JSON.parse(data);
-    } catch (error) {
-      // Profile doesn't exist, create new one
-      return this.createNewProfile(employeeEmail);
+
+    // An unreadable profile throws ProfileCorruptError rather than being replaced
+    const profile = await this.findEmployeeProfile(employeeEmail);
+    if (profile) {
+      return profile;
     }
+
+    const emails = (await this.getAllProfiles()).map(p => p.email);
+    throw new ProfileNotFoundError(employeeEmail.trim().toLowerCase(), StringDistance.closest(employeeEmail, emails));
+  }
+
+  /**
+   * Look up a profile by email (case-insensitive), or null if there is none
+   */
+  static async findEmployeeProfile(email: string): Promise<EmployeeProfile | null> {
+    const store = await this.getStore();
+    return store.get(email.trim().toLowerCase());
   }
 
   /**
-   * Create a new employee profile
+   * Create a new employee profile; refuses to replace an existing one
    */
   static async createNewProfile(email: string, additionalInfo?: Partial<EmployeeProfile>): Promise<EmployeeProfile> {
+    // Imported hires may start in the future; their profile is pending until then
+    const startDate = additionalInfo?.startDate || new Date().toISOString();
     const profile: EmployeeProfile = {
-      email: email.toLowerCase(),
+      email: email.trim().toLowerCase(),
       name: additionalInfo?.name || this.extractNameFromEmail(email),
-      startDate: new Date().toISOString(),
+      startDate,
       buddyEmail: additionalInfo?.buddyEmail,
       department: additionalInfo?.department,
-      currentStep: 1,
+      track: additionalInfo?.track,
+      currentStep: additionalInfo?.currentStep ?? 1,
       completedSteps: [],
+      unlockedSteps: additionalInfo?.unlockedSteps,
       stepData: {},
+      history: [
+        ...(additionalInfo?.history || []),
+        { type: 'started', at: startDate, details: { track: additionalInfo?.track } }
+      ],
       metadata: {
         createdAt: new Date().toISOString(),
         lastUpdated: new Date().toISOString(),
-        version: '1.0'
+        version: '1.0',
+        revision: 0
       }
     };
 
-    await this.saveEmployeeProfile(profile);
+    // The existence check is part of the write, so two sessions registering
+    // the same email can't both succeed (ProfileExistsError for the second)
+    const store = await this.getStore();
+    await store.create(profile);
     return profile;
   }
 
   /**
-   * Save employee profile to disk
+   * Append an event to the profile's history (entries are never rewritten)
+   */
+  static recordEvent(profile: EmployeeProfile, event: Omit<ProfileEvent, 'at'>): ProfileEvent {
+    const entry: ProfileEvent = { ...event, at: new Date().toISOString() };
+    profile.history = [...(profile.history || []), entry];
+    return entry;
+  }
+
+  /**
+   * Get the profile's history in time order; profiles created before history
+   * was recorded get one rebuilt from their start date and step data
+   */
+  static getHistory(profile: EmployeeProfile): ProfileEvent[] {
+    if (profile.history && profile.history.length > 0) {
+      return profile.history;
+    }
+
+    const events: ProfileEvent[] = [{ type: 'started', at: profile.startDate }];
+    for (const [stepId, data] of Object.entries(profile.stepData || {})) {
+      if (data?.completedAt) {
+        events.push({ type: 'completed', at: data.completedAt, stepId: Number(stepId), reason: data.notes });
+      }
+      if (data?.skippedAt) {
+        events.push({ type: 'skipped', at: data.skippedAt, stepId: Number(stepId), reason: data.skipReason });
+      }
+      if (data?.deferredAt) {
+        events.push({ type: 'deferred', at: data.deferredAt, stepId: Number(stepId), reason: data.deferReason });
+      }
+    }
+
+    return events.sort((a, b) => a.at.localeCompare(b.at));
+  }
+
+  /**
+   * Save employee profile to the configured store. Fails with
+   * ProfileConflictError if another session saved it since it was loaded.
    */
   static async saveEmployeeProfile(profile: EmployeeProfile): Promise<void> {
-    // Ensure data directory exists
-    await fs.mkdir(this.dataPath, { recursive: true });
-    
+    const expectedRevision = ProfileStores.getRevision(profile);
+
     // Update metadata
     profile.metadata.lastUpdated = new Date().toISOString();
-    
-    const profilePath = path.join(this.dataPath, `${profile.email}.json`);
-    await fs.writeFile(profilePath, JSON.stringify(profile, null, 2));
-    
-    // Update progress index
-    await this.updateProgressIndex();
+    profile.metadata.revision = expectedRevision + 1;
+
+    const store = await this.getStore();
+    try {
+      await store.save(profile, expectedRevision);
+    } catch (error) {
+      profile.metadata.revision = expectedRevision;
+      throw error;
+    }
   }
 
   /**
-   * Update the progress index file for quick lookups
+   * Set an unreadable profile aside and restore its last good copy.
+   * Returns null when there was no usable copy (the employee can register again).
    */
-  private static async updateProgressIndex(): Promise<void> {
+  static async recoverProfile(email: string): Promise<EmployeeProfile | null> {
+    const store = await this.getStore();
+    email = email.trim().toLowerCase();
+
+    let profile: EmployeeProfile | null;
     try {
-      const files = await fs.readdir(this.dataPath);
-      const profiles: Array<{ email: string; currentStep: number; lastUpdated: string }> = [];
-      
-      for (const file of files) {
-        if (file.endsWith('.json') && file !== 'progress-index.json') {
-          try {
-            const profilePath = path.join(this.dataPath, file);
-            const data = await fs.readFile(profilePath, 'utf-8');
-            const profile: EmployeeProfile = JSON.parse(data);
-            
-            profiles.push({
-              email: profile.email,
-              currentStep: profile.currentStep,
-              lastUpdated: profile.metadata.lastUpdated
-            });
-          } catch (error) {
-            console.warn(`Failed to read profile ${file}:`, error);
-          }
-        }
-      }
-      
-      const indexPath = path.join(this.dataPath, 'progress-index.json');
-      await fs.writeFile(indexPath, JSON.stringify({
-        updatedAt: new Date().toISOString(),
-        totalEmployees: profiles.length,
-        profiles: profiles.sort((a, b) => new Date(b.lastUpdated).getTime() - new Date(a.lastUpdated).getTime())
-      }, null, 2));
-      
+      profile = await store.get(email);
     } catch (error) {
-      console.warn('Failed to update progress index:', error);
+      if (error instanceof ProfileCorruptError) {
+        return store.recover(email);
+      }
+      throw error;
     }
+
+    throw new Error(profile
+      ? `The onboarding profile for ${email} is readable; there is nothing to recover.`
+      : `No onboarding profile found for ${email}.`);
+  }
+
+  /**
+   * Remove a profile from the store (it is kept aside, not destroyed)
+   */
+  static async deleteProfile(email: string): Promise<void> {
+    const store = await this.getStore();
+    await store.delete(email.trim().toLowerCase());
   }
 
   /**
    * Get all employee profiles (for onboarding buddies)
    */
   static async getAllProfiles(): Promise<EmployeeProfile[]> {
-    try {
-      const files = await fs.readdir(this.dataPath);
-      const profiles: EmployeeProfile[] = [];
-      
-      for (const file of files) {
-        if (file.endsWith('.json') && file !== 'progress-index.json') {
-          try {
-            const profilePath = path.join(this.dataPath, file);
-            const data = await fs.readFile(profilePath, 'utf-8');
-            profiles.push(JSON.parse(data));
-          } catch (error) {
-            console.warn(`Failed to read profile ${file}:`, error);
-          }
-        }
-      }
-      
-      return profiles.sort((a, b) => new Date(b.metadata.lastUpdated).getTime() - new Date(a.metadata.lastUpdated).getTime());
-    } catch (error) {
-      return [];
-    }
+    const store = await this.getStore();
+    return store.list();
   }
 
   /**
-   * Validate email format
+   * Get the profiles matching a buddy, department and/or track
    */
-  private static isValidEmail(email: string): boolean {
-    const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-    return emailRegex.test(email);
+  static async queryProfiles(query: ProfileQuery): Promise<EmployeeProfile[]> {
+    const store = await this.getStore();
+    return store.query(query);
   }
 
   /**
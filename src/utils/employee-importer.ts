@@ -0,0 +1,356 @@
+import { ConfigParser } from './config-parser.js';
+import { EmployeeIdentifier } from './employee-identifier.js';
+import { ProfileExistsError } from './profile-store.js';
+import { StepGraph } from './step-graph.js';
+import { StringDistance } from './string-distance.js';
+
+export type ImportFormat = 'csv' | 'json';
+
+export const IMPORT_FORMATS: ImportFormat[] = ['csv', 'json'];
+
+export type ImportRowStatus = 'created' | 'would_create' | 'duplicate' | 'invalid';
+
+export interface ImportRowResult {
+  /** Line of the CSV record, or 1-based position in the JSON array */
+  line: number;
+  email: string;
+  name?: string;
+  track?: string;
+  startDate?: string;
+  status: ImportRowStatus;
+  errors: string[];
+  /** Problems that don't stop the import, e.g. an email close to an existing one */
+  warnings: string[];
+}
+
+export interface ImportReport {
+  format: ImportFormat;
+  dryRun: boolean;
+  total: number;
+  created: number;
+  duplicates: number;
+  invalid: number;
+  rows: ImportRowResult[];
+}
+
+interface RosterRow {
+  line: number;
+  fields: Record<string, string>;
+}
+
+/** Accepted column names (compared without case, spaces, dashes or underscores) */
+const COLUMN_ALIASES: Record<string, string> = {
+  email: 'email',
+  emailaddress: 'email',
+  name: 'name',
+  fullname: 'name',
+  buddy: 'buddyEmail',
+  buddyemail: 'buddyEmail',
+  department: 'department',
+  dept: 'department',
+  track: 'track',
+  startdate: 'startDate',
+  start: 'startDate',
+};
+
+const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Pre-create profiles for incoming hires from HR's roster (CSV or JSON).
+ * Profiles with a future start date stay pending until that day.
+ */
+export class EmployeeImporter {
+  /**
+   * Validate every row, then create profiles for the valid, new ones (unless dryRun)
+   */
+  static async import(
+    content: string,
+    options: { format?: ImportFormat; dryRun?: boolean; now?: Date } = {}
+  ): Promise<ImportReport> {
+    const format = options.format || this.detectFormat(content);
+    const dryRun = options.dryRun ?? false;
+    const now = options.now || new Date();
+    const rows = format === 'csv' ? this.parseCsv(content) : this.parseJson(content);
+
+    const existingEmails = (await EmployeeIdentifier.getAllProfiles()).map(profile => profile.email);
+    const seen = new Map<string, number>();
+    const results: ImportRowResult[] = [];
+
+    for (const row of rows) {
+      const result = await this.validateRow(row, now);
+
+      if (result.errors.length === 0) {
+        const firstLine = seen.get(result.email);
+        if (firstLine !== undefined) {
+          result.status = 'duplicate';
+          result.errors.push(`Same email as line ${firstLine}`);
+        } else if (await this.profileExists(result.email)) {
+          result.status = 'duplicate';
+          result.errors.push(`A profile for ${result.email} already exists`);
+        } else {
+          const similar = StringDistance.closest(result.email, existingEmails.filter(email => email !== result.email), 1);
+          if (similar.length > 0) {
+            result.warnings.push(`Close to existing profile ${similar[0]}; check this isn't the same person`);
+          }
+        }
+      }
+      if (result.email) {
+        seen.set(result.email, seen.get(result.email) ?? row.line);
+      }
+
+      if (result.status === 'would_create' && !dryRun) {
+        try {
+          await this.createProfile(row.fields, result, now);
+          result.status = 'created';
+        } catch (error) {
+          // Registered by someone else since the check above
+          if (!(error instanceof ProfileExistsError)) {
+            throw error;
+          }
+          result.status = 'duplicate';
+          result.errors.push(`A profile for ${result.email} already exists`);
+        }
+      }
+      results.push(result);
+    }
+
+    const count = (...statuses: ImportRowStatus[]) => results.filter(result => statuses.includes(result.status)).length;
+    return {
+      format,
+      dryRun,
+      total: results.length,
+      created: count('created', 'would_create'),
+      duplicates: count('duplicate'),
+      invalid: count('invalid'),
+      rows: results,
+    };
+  }
+
+  static detectFormat(content: string): ImportFormat {
+    return /^\s*[[{]/.test(content.replace(/^\uFEFF/, '')) ? 'json' : 'csv';
+  }
+
+  static formatReport(report: ImportReport): string {
+    const verb = report.dryRun ? 'Would create' : 'Created';
+    let text = `**Employee import${report.dryRun ? ' (dry run - nothing saved)' : ''}:** ` +
+      `${report.total} row(s), ${verb.toLowerCase()} ${report.created}, ${report.duplicates} duplicate(s), ${report.invalid} invalid\n`;
+
+    for (const row of report.rows) {
+      const who = `${row.name ? `${row.name} ` : ''}<${row.email || 'no email'}>`;
+      switch (row.status) {
+        case 'created':
+        case 'would_create':
+          text += `\n✅ Line ${row.line}: ${verb} ${who} on track ${row.track}, starting ${row.startDate!.slice(0, 10)}`;
+          break;
+        case 'duplicate':
+          text += `\n⏭️ Line ${row.line}: Skipped ${who} - ${row.errors.join('; ')}`;
+          break;
+        case 'invalid':
+          text += `\n❌ Line ${row.line}: ${who} - ${row.errors.join('; ')}`;
+          break;
+      }
+      for (const warning of row.warnings) {
+        text += `\n   ⚠️ ${warning}`;
+      }
+    }
+
+    if (report.dryRun && report.created > 0) {
+      text += `\n\nRun the import again without dry run to create these profiles.`;
+    }
+    return text;
+  }
+
+  private static async validateRow(row: RosterRow, now: Date): Promise<ImportRowResult> {
+    const fields = row.fields;
+    const email = (fields.email || '').trim().toLowerCase();
+    const result: ImportRowResult = {
+      line: row.line,
+      email,
+      name: fields.name?.trim() || undefined,
+      status: 'would_create',
+      errors: [],
+      warnings: [],
+    };
+
+    if (!email) {
+      result.errors.push('email is missing');
+    } else if (!EMAIL_REGEX.test(email)) {
+      result.errors.push(`"${email}" is not a valid email`);
+    }
+    if (!result.name) {
+      result.errors.push('name is missing');
+    }
+
+    const buddy = fields.buddyEmail?.trim().toLowerCase();
+    if (buddy && !EMAIL_REGEX.test(buddy)) {
+      result.errors.push(`buddy "${buddy}" is not a valid email`);
+    } else if (buddy && buddy === email) {
+      result.errors.push('an employee cannot be their own buddy');
+    }
+
+    try {
+      result.track = await ConfigParser.resolveTrackName(fields.track?.trim() || undefined, fields.department?.trim() || undefined);
+    } catch (error: any) {
+      result.errors.push(error.message);
+    }
+
+    const startDate = this.parseStartDate(fields.startDate);
+    if (!fields.startDate?.trim()) {
+      result.errors.push('startDate is missing');
+    } else if (!startDate) {
+      result.errors.push(`startDate "${fields.startDate.trim()}" is not a date (use YYYY-MM-DD)`);
+    } else if (startDate.getTime() < Math.floor(now.getTime() / DAY_MS) * DAY_MS) {
+      result.errors.push(`startDate ${fields.startDate.trim()} is in the past; use register_employee for people who have already started`);
+    } else {
+      result.startDate = startDate.toISOString();
+    }
+
+    if (result.errors.length > 0) {
+      result.status = 'invalid';
+    }
+    return result;
+  }
+
+  private static async profileExists(email: string): Promise<boolean> {
+    try {
+      return !!(await EmployeeIdentifier.findEmployeeProfile(email));
+    } catch (error) {
+      // A corrupt profile still occupies the email; recover_profile deals with it
+      return true;
+    }
+  }
+
+  private static async createProfile(fields: Record<string, string>, result: ImportRowResult, now: Date): Promise<void> {
+    const steps = await ConfigParser.getAllSteps(result.track);
+    const unlockedSteps = StepGraph.getUnlockedSteps(steps, []);
+
+    await EmployeeIdentifier.createNewProfile(result.email, {
+      name: result.name,
+      buddyEmail: fields.buddyEmail?.trim().toLowerCase() || undefined,
+      department: fields.department?.trim() || undefined,
+      track: result.track,
+      startDate: result.startDate,
+      currentStep: unlockedSteps.length > 0 ? unlockedSteps[0] : 1,
+      unlockedSteps,
+      history: [{ type: 'imported', at: now.toISOString(), details: { startDate: result.startDate } }],
+    });
+  }
+
+  /**
+   * "2025-03-14" (midnight UTC, like the dates shown everywhere else) or a full ISO timestamp
+   */
+  private static parseStartDate(value?: string): Date | null {
+    const trimmed = (value || '').trim();
+    if (!/^\d{4}-\d{2}-\d{2}(T.+)?$/.test(trimmed)) {
+      return null;
+    }
+    const date = new Date(trimmed.length === 10 ? `${trimmed}T00:00:00.000Z` : trimmed);
+    return isNaN(date.getTime()) ? null : date;
+  }
+
+  private static parseJson(content: string): RosterRow[] {
+    let data: any;
+    try {
+      data = JSON.parse(content.replace(/^\uFEFF/, ''));
+    } catch (error: any) {
+      throw new Error(`Roster is not valid JSON: ${error.message}`);
+    }
+
+    const entries = Array.isArray(data) ? data : data?.employees;
+    if (!Array.isArray(entries)) {
+      throw new Error('JSON roster must be an array of employees or { "employees": [...] }');
+    }
+
+    return entries.map((entry, index) => {
+      const fields: Record<string, string> = {};
+      for (const [key, value] of Object.entries(entry && typeof entry === 'object' ? entry : {})) {
+        const column = this.normalizeColumn(key);
+        if (column && value !== null && value !== undefined) {
+          fields[column] = String(value);
+        }
+      }
+      return { line: index + 1, fields };
+    });
+  }
+
+  /**
+   * RFC 4180 CSV with a header row; quoted fields may contain commas, quotes ("") and newlines
+   */
+  private static parseCsv(content: string): RosterRow[] {
+    const records: { line: number; values: string[] }[] = [];
+    let values: string[] = [];
+    let value = '';
+    let quoted = false;
+    let line = 1;
+    let recordLine = 1;
+    const text = content.replace(/^\uFEFF/, '');
+
+    const endRecord = () => {
+      values.push(value);
+      if (values.some(v => v.trim() !== '')) {
+        records.push({ line: recordLine, values });
+      }
+      values = [];
+      value = '';
+    };
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+      if (quoted) {
+        if (char === '"' && text[i + 1] === '"') {
+          value += '"';
+          i++;
+        } else if (char === '"') {
+          quoted = false;
+        } else {
+          if (char === '\n') {
+            line++;
+          }
+          value += char;
+        }
+      } else if (char === '"') {
+        quoted = true;
+      } else if (char === ',') {
+        values.push(value);
+        value = '';
+      } else if (char === '\n' || char === '\r') {
+        if (char === '\r' && text[i + 1] === '\n') {
+          i++;
+        }
+        endRecord();
+        line++;
+        recordLine = line;
+      } else {
+        value += char;
+      }
+    }
+    if (quoted) {
+      throw new Error(`CSV roster has an unterminated quoted field starting on line ${recordLine}`);
+    }
+    endRecord();
+
+    const [header, ...rows] = records;
+    if (!header) {
+      return [];
+    }
+    const columns = header.values.map(name => this.normalizeColumn(name));
+    if (!columns.includes('email')) {
+      throw new Error(`CSV roster needs a header row with an "email" column (found: ${header.values.join(', ')})`);
+    }
+
+    return rows.map(row => {
+      const fields: Record<string, string> = {};
+      columns.forEach((column, index) => {
+        if (column && row.values[index] !== undefined) {
+          fields[column] = row.values[index];
+        }
+      });
+      return { line: row.line, fields };
+    });
+  }
+
+  private static normalizeColumn(name: string): string | undefined {
+    return COLUMN_ALIASES[name.trim().toLowerCase().replace(/[\s_-]+/g, '')];
+  }
+}
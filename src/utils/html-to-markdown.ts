@@ -0,0 +1,163 @@
+interface ListState {
+  ordered: boolean;
+  index: number;
+  /** Indentation of this list's markers */
+  indent: string;
+  /** Indentation that lines up with the current item's text, for nested lists */
+  itemIndent: string;
+}
+
+const BLOCK_TAGS = new Set(['p', 'div', 'section', 'article', 'header', 'footer', 'blockquote', 'table', 'tr']);
+
+const ENTITIES: Record<string, string> = {
+  nbsp: ' ',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  amp: '&',
+  mdash: '—',
+  ndash: '–',
+  hellip: '…',
+  rarr: '→',
+};
+
+export class HtmlToMarkdown {
+  /**
+   * Convert step and resource HTML into Markdown: headings, paragraphs,
+   * emphasis, links, images, code and (nested) lists
+   */
+  static convert(html: string): string {
+    const cleaned = html
+      .replace(/<!--[\s\S]*?-->/g, '')
+      .replace(/<(script|style)\b[^>]*>[\s\S]*?<\/\1>/gi, '');
+
+    const tokenRegex = /<(\/?)([a-zA-Z][a-zA-Z0-9]*)\b([^>]*)>|([^<]+)/g;
+    const lists: ListState[] = [];
+    const links: string[] = [];
+    let out = '';
+    let inPre = false;
+    // Set after an opening marker so "<strong> Foo" doesn't become "** Foo"
+    let trimNext = false;
+    let match;
+
+    const ensureNewline = () => {
+      if (out && !out.endsWith('\n')) {
+        out += '\n';
+      }
+    };
+    const ensureBlankLine = () => {
+      if (lists.length > 0) {
+        ensureNewline();
+      } else if (out && !out.endsWith('\n\n')) {
+        out += out.endsWith('\n') ? '\n' : '\n\n';
+      }
+    };
+
+    while ((match = tokenRegex.exec(cleaned)) !== null) {
+      const [, closing, rawTag, attributes, text] = match;
+
+      if (text !== undefined) {
+        let value = this.decodeEntities(text);
+        if (!inPre) {
+          value = value.replace(/\s+/g, ' ');
+          if (trimNext || !out || out.endsWith('\n') || out.endsWith(' ')) {
+            value = value.trimStart();
+          }
+        }
+        out += value;
+        trimNext = trimNext && !value;
+        continue;
+      }
+
+      const tag = rawTag.toLowerCase();
+      const isClosing = closing === '/';
+      const marker = (open: string, close = open) => {
+        if (isClosing) {
+          // Keep trailing whitespace outside the closing marker
+          const trailing = out.endsWith(' ');
+          out = `${out.trimEnd()}${close}${trailing ? ' ' : ''}`;
+        } else {
+          out += open;
+          trimNext = true;
+        }
+      };
+
+      if (/^h[1-6]$/.test(tag)) {
+        ensureBlankLine();
+        if (!isClosing) {
+          out += `${'#'.repeat(Number(tag[1]))} `;
+        }
+      } else if (BLOCK_TAGS.has(tag)) {
+        ensureBlankLine();
+      } else if (tag === 'ul' || tag === 'ol') {
+        if (isClosing) {
+          lists.pop();
+          ensureBlankLine();
+        } else {
+          ensureNewline();
+          const indent = lists.length > 0 ? lists[lists.length - 1].itemIndent : '';
+          lists.push({ ordered: tag === 'ol', index: 0, indent, itemIndent: indent });
+        }
+      } else if (tag === 'li' && !isClosing) {
+        ensureNewline();
+        const list = lists[lists.length - 1];
+        if (list) {
+          const bullet = list.ordered ? `${++list.index}. ` : '- ';
+          list.itemIndent = list.indent + ' '.repeat(bullet.length);
+          out += list.indent + bullet;
+        } else {
+          out += '- ';
+        }
+      } else if (tag === 'br') {
+        out += '\n';
+      } else if (tag === 'strong' || tag === 'b') {
+        marker('**');
+      } else if (tag === 'em' || tag === 'i') {
+        marker('_');
+      } else if (tag === 'code' && !inPre) {
+        marker('`');
+      } else if (tag === 'pre') {
+        inPre = !isClosing;
+        ensureNewline();
+        out += isClosing ? '```\n\n' : '```\n';
+      } else if (tag === 'a') {
+        const href = isClosing ? links.pop() : undefined;
+        if (!isClosing) {
+          links.push(this.getAttribute(attributes, 'href') || '');
+        }
+        marker('[', href ? `](${href})` : ']');
+      } else if (tag === 'img' && !isClosing) {
+        out += `![${this.getAttribute(attributes, 'alt') || ''}](${this.getAttribute(attributes, 'src') || ''})`;
+      }
+    }
+
+    return this.tidy(out);
+  }
+
+  /**
+   * Clean up the spacing left by the tag walk: no trailing spaces and at
+   * most one blank line in a row
+   */
+  private static tidy(markdown: string): string {
+    return markdown
+      .replace(/[ \t]+\n/g, '\n')
+      .replace(/\n{3,}/g, '\n\n')
+      .trim();
+  }
+
+  private static getAttribute(attributes: string, name: string): string | undefined {
+    const match = attributes.match(new RegExp(`\\b${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)')`, 'i'));
+    return match ? this.decodeEntities(match[1] ?? match[2]) : undefined;
+  }
+
+  private static decodeEntities(text: string): string {
+    return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+      if (code[0] === '#') {
+        const value = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+        return Number.isFinite(value) ? String.fromCodePoint(value) : entity;
+      }
+      return ENTITIES[code.toLowerCase()] ?? entity;
+    });
+  }
+}
@@ -0,0 +1,318 @@
+import { execFile } from 'child_process';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { ConfigParser } from './config-parser.js';
+
+export type IdentitySourceName = 'identityFile' | 'env' | 'git' | 'domainMap';
+
+export type IdentityConfidence = 'high' | 'medium' | 'low';
+
+export interface IdentityCandidate {
+  email: string;
+  source: IdentitySourceName;
+  confidence: IdentityConfidence;
+  /** Where the email came from, e.g. "git config user.email" */
+  detail: string;
+}
+
+export interface IdentitySourceAttempt {
+  source: IdentitySourceName;
+  candidate?: IdentityCandidate;
+  /** Why the source produced nothing */
+  skipped?: string;
+}
+
+export interface IdentityResolution {
+  status: 'resolved' | 'ambiguous' | 'unknown';
+  email?: string;
+  chosen?: IdentityCandidate;
+  attempts: IdentitySourceAttempt[];
+  /** The conflicting or unconfirmed candidates when status is ambiguous */
+  candidates: IdentityCandidate[];
+}
+
+/**
+ * config/identity.json
+ */
+export interface IdentityConfig {
+  /** Sources to consult, in priority order */
+  sources: IdentitySourceName[];
+  /** Environment variables that hold the employee's email */
+  envVars: string[];
+  /** Windows/NT domain (USERDOMAIN) to email domain; "*" applies to any domain */
+  domainMap: Record<string, string>;
+  /** Email domains that count as corporate (other git emails, or all of them while this is empty, are low confidence) */
+  corporateDomains: string[];
+}
+
+export const IDENTITY_SOURCES: IdentitySourceName[] = ['identityFile', 'env', 'git', 'domainMap'];
+
+const DEFAULT_CONFIG: IdentityConfig = {
+  sources: IDENTITY_SOURCES,
+  envVars: ['ONBOARDING_EMAIL', 'USER_EMAIL', 'USERPRINCIPALNAME', 'OFFICE_365_EMAIL'],
+  domainMap: {},
+  corporateDomains: [],
+};
+
+const GIT_TIMEOUT_MS = 3000;
+const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * Thrown when the identity sources disagree or only produced unconfirmed guesses
+ */
+export class IdentityAmbiguousError extends Error {
+  constructor(public resolution: IdentityResolution) {
+    super(IdentityResolver.formatPrompt(resolution));
+    this.name = 'IdentityAmbiguousError';
+  }
+}
+
+export class IdentityResolver {
+  /**
+   * Run the configured source chain. A high-confidence source wins in chain
+   * order; otherwise a single agreed medium-confidence email is used, and
+   * anything less certain is reported as ambiguous instead of guessed.
+   */
+  static async resolve(hasProfile: (email: string) => Promise<boolean> = async () => false): Promise<IdentityResolution> {
+    const config = await this.loadConfig();
+    const attempts: IdentitySourceAttempt[] = [];
+
+    for (const source of config.sources) {
+      attempts.push(await this.trySource(source, config));
+    }
+
+    const candidates = attempts
+      .map(attempt => attempt.candidate)
+      .filter((candidate): candidate is IdentityCandidate => !!candidate);
+
+    const high = candidates.find(candidate => candidate.confidence === 'high');
+    if (high) {
+      return { status: 'resolved', email: high.email, chosen: high, attempts, candidates: [] };
+    }
+
+    const medium = this.uniqueByEmail(candidates.filter(candidate => candidate.confidence === 'medium'));
+    if (medium.length === 1) {
+      return { status: 'resolved', email: medium[0].email, chosen: medium[0], attempts, candidates: [] };
+    }
+    if (medium.length > 1) {
+      // Sources disagree: settle it only if exactly one of them is already onboarding
+      const known: IdentityCandidate[] = [];
+      for (const candidate of medium) {
+        if (await hasProfile(candidate.email)) {
+          known.push(candidate);
+        }
+      }
+      if (known.length === 1) {
+        return { status: 'resolved', email: known[0].email, chosen: known[0], attempts, candidates: [] };
+      }
+      return { status: 'ambiguous', attempts, candidates: medium };
+    }
+
+    const low = this.uniqueByEmail(candidates);
+    if (low.length > 0) {
+      return { status: 'ambiguous', attempts, candidates: low };
+    }
+
+    return { status: 'unknown', attempts, candidates: [] };
+  }
+
+  /**
+   * Tell the employee how to settle an ambiguous identity
+   */
+  static formatPrompt(resolution: IdentityResolution): string {
+    let text = `I couldn't determine with confidence who you are. `;
+    if (resolution.candidates.length > 1) {
+      text += `These sources point to different people:\n\n`;
+    } else {
+      text += `The only match is an unconfirmed guess:\n\n`;
+    }
+    for (const candidate of resolution.candidates) {
+      text += `- ${candidate.email} (${candidate.detail}, ${candidate.confidence} confidence)\n`;
+    }
+    text += `\nPlease confirm your work email: pass \`email\` to the tool, or save it in ${this.getIdentityFilePath()} ` +
+      `as {"email": "you@company.com"} so it is used from now on.`;
+    return text;
+  }
+
+  /**
+   * Explain every source for the whoami tool
+   */
+  static formatResolution(resolution: IdentityResolution): string {
+    let text = '';
+    switch (resolution.status) {
+      case 'resolved':
+        text += `**You are ${resolution.email}**\n`;
+        text += `Source: ${resolution.chosen!.detail} (${resolution.chosen!.confidence} confidence)\n\n`;
+        break;
+      case 'ambiguous':
+        text += `${this.formatPrompt(resolution)}\n\n`;
+        break;
+      case 'unknown':
+        text += `**No identity found.** Use register_employee, pass \`email\` to the tools, ` +
+          `or save {"email": "you@company.com"} in ${this.getIdentityFilePath()}.\n\n`;
+        break;
+    }
+
+    text += `**Sources checked (in priority order):**\n`;
+    for (const attempt of resolution.attempts) {
+      text += attempt.candidate
+        ? `- ${attempt.source}: ${attempt.candidate.email} (${attempt.candidate.detail}, ${attempt.candidate.confidence})\n`
+        : `- ${attempt.source}: ${attempt.skipped}\n`;
+    }
+    return text;
+  }
+
+  static getIdentityFilePath(): string {
+    return process.env.ONBOARDING_IDENTITY_FILE || path.join(os.homedir(), '.onboarding', 'identity.json');
+  }
+
+  /**
+   * Read config/identity.json on top of the defaults; a broken file is an error
+   * rather than a silent fallback
+   */
+  static async loadConfig(): Promise<IdentityConfig> {
+    const configFile = path.join(ConfigParser.getConfigPath(), 'identity.json');
+    let raw: Partial<IdentityConfig>;
+    try {
+      raw = JSON.parse(await fs.readFile(configFile, 'utf-8'));
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return DEFAULT_CONFIG;
+      }
+      throw new Error(`Invalid identity config ${configFile}: ${error.message}`);
+    }
+
+    const unknownSources = (raw.sources || []).filter(source => !IDENTITY_SOURCES.includes(source));
+    if (unknownSources.length > 0) {
+      throw new Error(`Invalid identity config ${configFile}: unknown source(s) ${unknownSources.join(', ')} ` +
+        `(expected ${IDENTITY_SOURCES.join(', ')})`);
+    }
+
+    return {
+      sources: raw.sources || DEFAULT_CONFIG.sources,
+      envVars: raw.envVars || DEFAULT_CONFIG.envVars,
+      domainMap: raw.domainMap || DEFAULT_CONFIG.domainMap,
+      corporateDomains: (raw.corporateDomains || DEFAULT_CONFIG.corporateDomains).map(domain => domain.toLowerCase()),
+    };
+  }
+
+  private static async trySource(source: IdentitySourceName, config: IdentityConfig): Promise<IdentitySourceAttempt> {
+    switch (source) {
+      case 'identityFile':
+        return this.fromIdentityFile();
+      case 'env':
+        return this.fromEnv(config);
+      case 'git':
+        return this.fromGit(config);
+      case 'domainMap':
+        return this.fromDomainMap(config);
+    }
+  }
+
+  private static async fromIdentityFile(): Promise<IdentitySourceAttempt> {
+    const filePath = this.getIdentityFilePath();
+    let identity: { email?: unknown };
+    try {
+      identity = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+    } catch (error: any) {
+      return {
+        source: 'identityFile',
+        skipped: error.code === 'ENOENT' ? `${filePath} not found` : `${filePath} is unreadable: ${error.message}`,
+      };
+    }
+
+    if (typeof identity.email !== 'string' || !EMAIL_REGEX.test(identity.email)) {
+      return { source: 'identityFile', skipped: `${filePath} has no valid "email"` };
+    }
+    return {
+      source: 'identityFile',
+      candidate: { email: identity.email.toLowerCase(), source: 'identityFile', confidence: 'high', detail: filePath },
+    };
+  }
+
+  private static fromEnv(config: IdentityConfig): IdentitySourceAttempt {
+    for (const name of config.envVars) {
+      const value = process.env[name];
+      if (value && EMAIL_REGEX.test(value)) {
+        return {
+          source: 'env',
+          candidate: { email: value.toLowerCase(), source: 'env', confidence: 'high', detail: `$${name}` },
+        };
+      }
+    }
+    return { source: 'env', skipped: `none of ${config.envVars.map(name => `$${name}`).join(', ')} holds an email` };
+  }
+
+  private static fromGit(config: IdentityConfig): Promise<IdentitySourceAttempt> {
+    return new Promise(resolve => {
+      execFile('git', ['config', '--get', 'user.email'], { timeout: GIT_TIMEOUT_MS, windowsHide: true }, (error, stdout) => {
+        const email = stdout?.trim().toLowerCase();
+        if (error || !email) {
+          resolve({ source: 'git', skipped: 'git user.email is not set' });
+          return;
+        }
+        if (!EMAIL_REGEX.test(email)) {
+          resolve({ source: 'git', skipped: `git user.email ${email} is not a valid email` });
+          return;
+        }
+
+        // Git emails are often personal; only a listed corporate domain makes one a usable work identity
+        const confirmed = config.corporateDomains.includes(email.split('@')[1]);
+        resolve({
+          source: 'git',
+          candidate: {
+            email,
+            source: 'git',
+            confidence: confirmed ? 'medium' : 'low',
+            detail: confirmed || config.corporateDomains.length > 0
+              ? 'git config user.email'
+              : 'git config user.email, unconfirmed: no corporateDomains configured',
+          },
+        });
+      });
+    });
+  }
+
+  private static fromDomainMap(config: IdentityConfig): IdentitySourceAttempt {
+    const username = process.env.USERNAME || process.env.USER;
+    if (!username) {
+      return { source: 'domainMap', skipped: 'no $USERNAME or $USER' };
+    }
+
+    const userDomain = process.env.USERDOMAIN;
+    const key = Object.keys(config.domainMap).find(name => userDomain && name.toLowerCase() === userDomain.toLowerCase())
+      || (config.domainMap['*'] ? '*' : undefined);
+    if (!key) {
+      return {
+        source: 'domainMap',
+        skipped: userDomain ? `domain ${userDomain} is not in the domain map` : 'no $USERDOMAIN and no "*" entry in the domain map',
+      };
+    }
+
+    const email = `${username}@${config.domainMap[key]}`.toLowerCase();
+    if (!EMAIL_REGEX.test(email)) {
+      return { source: 'domainMap', skipped: `${email} is not a valid email` };
+    }
+    return {
+      source: 'domainMap',
+      candidate: {
+        email,
+        source: 'domainMap',
+        confidence: 'medium',
+        detail: key === '*' ? `username ${username} with the default domain` : `username ${username} in domain ${userDomain}`,
+      },
+    };
+  }
+
+  private static uniqueByEmail(candidates: IdentityCandidate[]): IdentityCandidate[] {
+    const seen = new Set<string>();
+    return candidates.filter(candidate => {
+      if (seen.has(candidate.email)) {
+        return false;
+      }
+      seen.add(candidate.email);
+      return true;
+    });
+  }
+}
@@ -0,0 +1,318 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { EmployeeProfile } from './employee-identifier.js';
+import {
+  ProfileConflictError,
+  ProfileCorruptError,
+  ProfileExistsError,
+  ProfileQuery,
+  ProfileStore,
+  ProfileStores,
+} from './profile-store.js';
+
+interface ProgressIndexEntry {
+  email: string;
+  currentStep: number;
+  lastUpdated: string;
+  buddyEmail?: string;
+  department?: string;
+  track?: string;
+}
+
+interface ProgressIndex {
+  version?: number;
+  updatedAt: string;
+  totalEmployees: number;
+  profiles: ProgressIndexEntry[];
+}
+
+const INDEX_FILE = 'progress-index.json';
+/** Bumped when entries gain fields, so older indexes get rebuilt */
+const INDEX_VERSION = 2;
+const LOCK_RETRY_MS = 25;
+const LOCK_TIMEOUT_MS = 5000;
+/** Locks older than this were left behind by a crashed process */
+const STALE_LOCK_MS = 30000;
+
+/**
+ * One JSON file per employee plus progress-index.json for quick lookups.
+ * Writes go to a temp file that is renamed into place while holding a lock
+ * file, and the previous version is kept as <email>.json.bak.
+ */
+export class JsonProfileStore implements ProfileStore {
+  readonly kind = 'json' as const;
+
+  constructor(private dataPath: string) {}
+
+  async get(email: string): Promise<EmployeeProfile | null> {
+    return this.readProfile(email, this.getProfilePath(email));
+  }
+
+  async save(profile: EmployeeProfile, expectedRevision?: number): Promise<void> {
+    // Ensure data directory exists
+    await fs.mkdir(this.dataPath, { recursive: true });
+    const profilePath = this.getProfilePath(profile.email);
+
+    await this.withLock(profilePath, async () => {
+      if (expectedRevision !== undefined) {
+        const current = await this.get(profile.email);
+        if (current && ProfileStores.getRevision(current) !== expectedRevision) {
+          throw new ProfileConflictError(profile.email, expectedRevision, ProfileStores.getRevision(current));
+        }
+        if (current) {
+          await fs.copyFile(profilePath, `${profilePath}.bak`);
+        }
+      }
+      await this.writeAtomic(profilePath, JSON.stringify(profile, null, 2));
+    });
+
+    await this.updateIndexEntry(profile);
+  }
+
+  async create(profile: EmployeeProfile): Promise<void> {
+    await fs.mkdir(this.dataPath, { recursive: true });
+    const profilePath = this.getProfilePath(profile.email);
+
+    // link() fails if the target exists, so a profile written by another
+    // process in the meantime is never replaced, even one ignoring the lock
+    await this.withLock(profilePath, async () => {
+      const tempPath = this.getTempPath(profilePath);
+      try {
+        await fs.writeFile(tempPath, JSON.stringify(profile, null, 2));
+        await fs.link(tempPath, profilePath);
+      } catch (error: any) {
+        if (error.code === 'EEXIST') {
+          throw new ProfileExistsError(profile.email);
+        }
+        throw error;
+      } finally {
+        await fs.rm(tempPath, { force: true });
+      }
+    });
+
+    await this.updateIndexEntry(profile);
+  }
+
+  async recover(email: string): Promise<EmployeeProfile | null> {
+    const profilePath = this.getProfilePath(email);
+
+    return this.withLock(profilePath, async () => {
+      try {
+        await fs.rename(profilePath, `${profilePath}.corrupt-${Date.now()}`);
+      } catch (error: any) {
+        if (error.code !== 'ENOENT') {
+          throw error;
+        }
+      }
+
+      let backup: EmployeeProfile | null;
+      try {
+        backup = await this.readProfile(email, `${profilePath}.bak`);
+      } catch (error) {
+        backup = null;
+      }
+      if (backup) {
+        await this.writeAtomic(profilePath, JSON.stringify(backup, null, 2));
+      }
+      return backup;
+    });
+  }
+
+  async delete(email: string): Promise<void> {
+    const profilePath = this.getProfilePath(email);
+    try {
+      await this.withLock(profilePath, () => fs.rename(profilePath, `${profilePath}.deleted-${Date.now()}`));
+    } catch (error: any) {
+      // No profile file, or no data directory at all; same message as the sqlite store
+      if (error.code === 'ENOENT') {
+        throw new Error(`No onboarding profile found for ${email}.`);
+      }
+      throw error;
+    }
+
+    const indexPath = path.join(this.dataPath, INDEX_FILE);
+    await this.withLock(indexPath, async () => {
+      const index = await this.readIndex();
+      await this.writeIndex(index.profiles.filter(entry => entry.email !== email));
+    });
+  }
+
+  async list(): Promise<EmployeeProfile[]> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.dataPath);
+    } catch (error) {
+      return [];
+    }
+
+    const profiles: EmployeeProfile[] = [];
+    for (const file of files) {
+      if (file.endsWith('.json') && file !== INDEX_FILE) {
+        try {
+          const data = await fs.readFile(path.join(this.dataPath, file), 'utf-8');
+          profiles.push(JSON.parse(data));
+        } catch (error) {
+          console.warn(`Failed to read profile ${file}:`, error);
+        }
+      }
+    }
+
+    return profiles.sort(ProfileStores.byLastUpdated);
+  }
+
+  async query(query: ProfileQuery): Promise<EmployeeProfile[]> {
+    const index = await this.readIndex();
+    const profiles: EmployeeProfile[] = [];
+
+    for (const entry of index.profiles) {
+      if (!ProfileStores.matches(entry, query)) {
+        continue;
+      }
+      try {
+        const profile = await this.get(entry.email);
+        if (profile) {
+          profiles.push(profile);
+        }
+      } catch (error) {
+        console.warn(`Failed to read profile ${entry.email}:`, error);
+      }
+    }
+
+    return profiles.sort(ProfileStores.byLastUpdated);
+  }
+
+  async close(): Promise<void> {}
+
+  /**
+   * Read the progress index, rebuilding it from the profile files when it is
+   * missing, unreadable or written by an older version
+   */
+  private async readIndex(): Promise<ProgressIndex> {
+    try {
+      const data = await fs.readFile(path.join(this.dataPath, INDEX_FILE), 'utf-8');
+      const index: ProgressIndex = JSON.parse(data);
+      if (index.version === INDEX_VERSION && Array.isArray(index.profiles)) {
+        return index;
+      }
+    } catch (error) {
+      // Fall through to a rebuild
+    }
+
+    const profiles = (await this.list()).map(profile => this.toIndexEntry(profile));
+    return { version: INDEX_VERSION, updatedAt: new Date().toISOString(), totalEmployees: profiles.length, profiles };
+  }
+
+  private async writeIndex(profiles: ProgressIndexEntry[]): Promise<void> {
+    try {
+      const index: ProgressIndex = {
+        version: INDEX_VERSION,
+        updatedAt: new Date().toISOString(),
+        totalEmployees: profiles.length,
+        profiles: profiles.sort((a, b) => new Date(b.lastUpdated).getTime() - new Date(a.lastUpdated).getTime()),
+      };
+      await this.writeAtomic(path.join(this.dataPath, INDEX_FILE), JSON.stringify(index, null, 2));
+    } catch (error) {
+      console.warn('Failed to update progress index:', error);
+    }
+  }
+
+  /**
+   * Replace this profile's index entry; the other profiles are not re-read
+   */
+  private async updateIndexEntry(profile: EmployeeProfile): Promise<void> {
+    const indexPath = path.join(this.dataPath, INDEX_FILE);
+    await this.withLock(indexPath, async () => {
+      const index = await this.readIndex();
+      const profiles = index.profiles.filter(entry => entry.email !== profile.email);
+      profiles.push(this.toIndexEntry(profile));
+      await this.writeIndex(profiles);
+    });
+  }
+
+  private async readProfile(email: string, filePath: string): Promise<EmployeeProfile | null> {
+    let data: string;
+    try {
+      data = await fs.readFile(filePath, 'utf-8');
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+
+    try {
+      return JSON.parse(data);
+    } catch (error: any) {
+      throw new ProfileCorruptError(email, filePath, error.message);
+    }
+  }
+
+  /**
+   * Write to a temp file and rename it over the target, so readers never see
+   * a half-written file
+   */
+  private async writeAtomic(filePath: string, data: string): Promise<void> {
+    const tempPath = this.getTempPath(filePath);
+    try {
+      await fs.writeFile(tempPath, data);
+      await fs.rename(tempPath, filePath);
+    } catch (error) {
+      await fs.rm(tempPath, { force: true });
+      throw error;
+    }
+  }
+
+  /**
+   * Run fn while holding <file>.lock, shared with other server processes
+   */
+  private async withLock<T>(filePath: string, fn: () => Promise<T>): Promise<T> {
+    const lockPath = `${filePath}.lock`;
+    const deadline = Date.now() + LOCK_TIMEOUT_MS;
+
+    while (true) {
+      try {
+        const handle = await fs.open(lockPath, 'wx');
+        await handle.close();
+        break;
+      } catch (error: any) {
+        if (error.code !== 'EEXIST') {
+          throw error;
+        }
+        const stat = await fs.stat(lockPath).catch(() => null);
+        if (stat && Date.now() - stat.mtimeMs > STALE_LOCK_MS) {
+          await fs.rm(lockPath, { force: true });
+          continue;
+        }
+        if (Date.now() > deadline) {
+          throw new Error(`Timed out waiting for ${lockPath}; remove it if no other onboarding server is running`);
+        }
+        await new Promise(resolve => setTimeout(resolve, LOCK_RETRY_MS));
+      }
+    }
+
+    try {
+      return await fn();
+    } finally {
+      await fs.rm(lockPath, { force: true });
+    }
+  }
+
+  private toIndexEntry(profile: EmployeeProfile): ProgressIndexEntry {
+    return {
+      email: profile.email,
+      currentStep: profile.currentStep,
+      lastUpdated: profile.metadata.lastUpdated,
+      buddyEmail: profile.buddyEmail,
+      department: profile.department,
+      track: profile.track,
+    };
+  }
+
+  private getTempPath(filePath: string): string {
+    return `${filePath}.${process.pid}-${Date.now()}-${Math.random().toString(36).slice(2)}.tmp`;
+  }
+
+  private getProfilePath(email: string): string {
+    return path.join(this.dataPath, `${email}.json`);
+  }
+}
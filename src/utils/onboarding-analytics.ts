@@ -0,0 +1,236 @@
+import { OnboardingStatus } from './progress-summary.js';
+import { ProgressExporter, ProgressExportRow } from './progress-export.js';
+
+export type AnalyticsGrouping = 'cohort' | 'department' | 'none';
+
+export const ANALYTICS_GROUPINGS: AnalyticsGrouping[] = ['cohort', 'department', 'none'];
+
+export interface AnalyticsFilter {
+  track?: string;
+  department?: string;
+  buddyEmail?: string;
+  groupBy?: AnalyticsGrouping;
+}
+
+/**
+ * How one step went for a group of employees
+ */
+export interface StepAnalytics {
+  stepId: number;
+  title: string;
+  required: boolean;
+  /** Employees whose track includes the step */
+  eligible: number;
+  /** Employees the step has been unlocked for */
+  reached: number;
+  completed: number;
+  skipped: number;
+  /** Reached but not finished yet: available or deferred */
+  open: number;
+  /** Share of eligible employees who completed the step */
+  completionRate: number;
+  /** Share of employees who reached the step without finishing it */
+  dropOffRate: number;
+  /** Days from the step becoming available to completion, over completed steps with timestamps */
+  medianDays: number | null;
+  p90Days: number | null;
+  samples: number;
+}
+
+export interface AnalyticsGroup {
+  /** Start month ("2025-03"), department, or "all" */
+  key: string;
+  employees: number;
+  completedOnboarding: number;
+  steps: StepAnalytics[];
+}
+
+export interface OnboardingAnalyticsReport {
+  filters: AnalyticsFilter;
+  employees: number;
+  /** Imported hires whose start date is still ahead; left out of every figure */
+  pendingExcluded: number;
+  statuses: Record<Exclude<OnboardingStatus, 'pending'>, number>;
+  overall: AnalyticsGroup;
+  groups: AnalyticsGroup[];
+}
+
+const NO_DEPARTMENT = '(no department)';
+
+/**
+ * Time per step, completion funnels and drop-off across employees, from the
+ * completion timestamps in their profiles
+ */
+export class OnboardingAnalytics {
+  static async analyze(filter: AnalyticsFilter = {}): Promise<OnboardingAnalyticsReport> {
+    const groupBy = filter.groupBy || 'cohort';
+    const { rows: allRows } = await ProgressExporter.collect({ department: filter.department, buddyEmail: filter.buddyEmail });
+    const trackRows = allRows.filter(row => !filter.track || row.track.toLowerCase() === filter.track.toLowerCase());
+    const rows = trackRows.filter(row => row.onboardingStatus !== 'pending');
+
+    const employees = this.byEmployee(rows);
+    const statuses = { not_started: 0, in_progress: 0, completed: 0 };
+    for (const employeeRows of employees.values()) {
+      statuses[employeeRows[0].onboardingStatus as keyof typeof statuses]++;
+    }
+
+    const groups = new Map<string, ProgressExportRow[]>();
+    if (groupBy !== 'none') {
+      for (const row of rows) {
+        const key = groupBy === 'cohort' ? row.startDate.slice(0, 7) : row.department || NO_DEPARTMENT;
+        groups.set(key, [...(groups.get(key) || []), row]);
+      }
+    }
+
+    return {
+      filters: { ...filter, groupBy },
+      employees: employees.size,
+      pendingExcluded: this.byEmployee(trackRows).size - employees.size,
+      statuses,
+      overall: this.analyzeGroup('all', rows),
+      groups: [...groups.keys()].sort().map(key => this.analyzeGroup(key, groups.get(key)!)),
+    };
+  }
+
+  static formatReport(report: OnboardingAnalyticsReport): string {
+    const filters = [
+      report.filters.track && `track ${report.filters.track}`,
+      report.filters.department && `department ${report.filters.department}`,
+      report.filters.buddyEmail && `buddy ${report.filters.buddyEmail}`,
+    ].filter(Boolean);
+
+    let text = `**Onboarding Analytics** - ${report.employees} employee(s)`;
+    text += filters.length > 0 ? `, ${filters.join(', ')}\n` : '\n';
+    if (report.pendingExcluded > 0) {
+      text += `(${report.pendingExcluded} imported hire(s) who haven't started yet are not counted)\n`;
+    }
+    if (report.employees === 0) {
+      return `${text}\nNo onboarding data matches these filters yet.`;
+    }
+
+    text += `Completed: ${report.statuses.completed} | In progress: ${report.statuses.in_progress} | ` +
+      `Not started: ${report.statuses.not_started}\n\n`;
+    text += `**All employees:**\n\n${this.formatStepTable(report.overall.steps)}`;
+
+    const slowest = report.overall.steps
+      .filter(step => step.medianDays !== null)
+      .sort((a, b) => b.medianDays! - a.medianDays!)[0];
+    const leakiest = report.overall.steps
+      .filter(step => step.reached > 0)
+      .sort((a, b) => b.dropOffRate - a.dropOffRate)[0];
+    if (slowest) {
+      text += `\nSlowest step: ${slowest.stepId}. ${slowest.title} (median ${this.formatDays(slowest.medianDays)}, p90 ${this.formatDays(slowest.p90Days)})`;
+    }
+    if (leakiest && leakiest.dropOffRate > 0) {
+      text += `\nMost drop-off: ${leakiest.stepId}. ${leakiest.title} (${this.formatPercent(leakiest.dropOffRate)} of those who reached it haven't finished)`;
+    }
+    text += '\n';
+
+    const groupLabel = report.filters.groupBy === 'cohort' ? 'start month' : 'department';
+    for (const group of report.groups) {
+      text += `\n**By ${groupLabel}: ${group.key}** - ${group.employees} employee(s), ${group.completedOnboarding} completed\n\n`;
+      text += this.formatStepTable(group.steps);
+    }
+
+    text += `\nDrop-off counts everyone who reached a step but hasn't finished it, including people still working on it.`;
+    return text;
+  }
+
+  /**
+   * Percentile with linear interpolation between the closest ranks
+   */
+  static percentile(values: number[], p: number): number | null {
+    if (values.length === 0) {
+      return null;
+    }
+    const sorted = [...values].sort((a, b) => a - b);
+    const rank = (p / 100) * (sorted.length - 1);
+    const lower = Math.floor(rank);
+    const upper = Math.ceil(rank);
+    return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+  }
+
+  private static analyzeGroup(key: string, rows: ProgressExportRow[]): AnalyticsGroup {
+    const employees = this.byEmployee(rows);
+
+    // Tracks share step files, so the same id and title is the same step
+    const steps = new Map<string, ProgressExportRow[]>();
+    for (const row of rows) {
+      const stepKey = `${row.stepId}\u0000${row.stepTitle}`;
+      steps.set(stepKey, [...(steps.get(stepKey) || []), row]);
+    }
+
+    return {
+      key,
+      employees: employees.size,
+      completedOnboarding: [...employees.values()].filter(employeeRows => employeeRows[0].onboardingStatus === 'completed').length,
+      steps: [...steps.values()]
+        .map(stepRows => this.analyzeStep(stepRows))
+        .sort((a, b) => a.stepId - b.stepId || a.title.localeCompare(b.title)),
+    };
+  }
+
+  private static analyzeStep(rows: ProgressExportRow[]): StepAnalytics {
+    const count = (...statuses: ProgressExportRow['stepStatus'][]) => rows.filter(row => statuses.includes(row.stepStatus)).length;
+    const eligible = rows.length;
+    const reached = eligible - count('locked');
+    const completed = count('completed');
+    const skipped = count('skipped');
+    const open = count('available', 'deferred');
+    const durations = rows
+      .map(row => row.daysToComplete)
+      .filter((days): days is number => days !== null);
+
+    return {
+      stepId: rows[0].stepId,
+      title: rows[0].stepTitle,
+      required: rows[0].required,
+      eligible,
+      reached,
+      completed,
+      skipped,
+      open,
+      completionRate: this.ratio(completed, eligible),
+      dropOffRate: this.ratio(open, reached),
+      medianDays: this.round(this.percentile(durations, 50)),
+      p90Days: this.round(this.percentile(durations, 90)),
+      samples: durations.length,
+    };
+  }
+
+  private static formatStepTable(steps: StepAnalytics[]): string {
+    let text = `| Step | Reached | Completed | Skipped | Drop-off | Median | P90 |\n`;
+    text += `|------|---------|-----------|---------|----------|--------|-----|\n`;
+    for (const step of steps) {
+      text += `| ${step.stepId}. ${step.title.replace(/\|/g, '\\|')}${step.required ? '' : ' (optional)'} ` +
+        `| ${step.reached}/${step.eligible} | ${step.completed} (${this.formatPercent(step.completionRate)}) | ${step.skipped} ` +
+        `| ${step.reached > 0 ? this.formatPercent(step.dropOffRate) : '-'} ` +
+        `| ${this.formatDays(step.medianDays)} | ${this.formatDays(step.p90Days)} |\n`;
+    }
+    return text;
+  }
+
+  private static byEmployee(rows: ProgressExportRow[]): Map<string, ProgressExportRow[]> {
+    const employees = new Map<string, ProgressExportRow[]>();
+    for (const row of rows) {
+      employees.set(row.email, [...(employees.get(row.email) || []), row]);
+    }
+    return employees;
+  }
+
+  private static ratio(part: number, whole: number): number {
+    return whole > 0 ? Math.round((part / whole) * 1000) / 1000 : 0;
+  }
+
+  private static round(days: number | null): number | null {
+    return days === null ? null : Math.round(days * 10) / 10;
+  }
+
+  private static formatPercent(rate: number): string {
+    return `${Math.round(rate * 100)}%`;
+  }
+
+  private static formatDays(days: number | null): string {
+    return days === null ? '-' : `${days}d`;
+  }
+}
@@ -0,0 +1,222 @@
+import { GetPromptResult, Prompt, PromptArgument } from '@modelcontextprotocol/sdk/types.js';
+import { ConfigParser, OnboardingStep } from './config-parser.js';
+import { EmployeeIdentifier, EmployeeProfile } from './employee-identifier.js';
+import { OnboardeeSummary, ProgressSummary } from './progress-summary.js';
+import { ResourceCatalog } from './resource-catalog.js';
+import { StallDetector } from './stall-detector.js';
+
+const EMAIL_ARGUMENT: PromptArgument = {
+  name: 'email',
+  description: 'Employee email (auto-detected if not provided)',
+};
+
+const PROMPTS: Prompt[] = [
+  {
+    name: 'onboarding_kickoff',
+    description: 'Welcome a new employee, lay out their onboarding plan and start on the current step',
+    arguments: [EMAIL_ARGUMENT],
+  },
+  {
+    name: 'daily_checkin',
+    description: 'Short daily check-in: what got done, what is blocking, and what to record',
+    arguments: [EMAIL_ARGUMENT],
+  },
+  {
+    name: 'explain_current_step',
+    description: "Explain the employee's current step in plain terms and what counts as done",
+    arguments: [
+      EMAIL_ARGUMENT,
+      { name: 'question', description: 'A specific question about the step' },
+    ],
+  },
+  {
+    name: 'buddy_handoff',
+    description: "Write a handoff note so a new onboarding buddy can pick up an employee's onboarding",
+    arguments: [
+      { name: 'email', description: 'Email of the employee being handed off', required: true },
+      { name: 'newBuddyEmail', description: 'Email of the buddy taking over' },
+    ],
+  },
+];
+
+/**
+ * Guided conversations as MCP prompts, filled in with the employee's profile
+ * and current step so every client runs the same flow
+ */
+export class OnboardingPrompts {
+  static list(): Prompt[] {
+    return PROMPTS;
+  }
+
+  static async get(name: string, args: Record<string, string> = {}): Promise<GetPromptResult> {
+    const definition = PROMPTS.find(prompt => prompt.name === name);
+    if (!definition) {
+      throw new Error(`Unknown prompt ${name}. Available: ${PROMPTS.map(prompt => prompt.name).join(', ')}`);
+    }
+
+    const missing = (definition.arguments || []).filter(argument => argument.required && !args[argument.name]);
+    if (missing.length > 0) {
+      throw new Error(`Prompt ${name} requires: ${missing.map(argument => argument.name).join(', ')}`);
+    }
+
+    const profile = await EmployeeIdentifier.getEmployeeProfile(args.email);
+    const summary = await ProgressSummary.summarize(profile);
+
+    let text: string;
+    switch (name) {
+      case 'onboarding_kickoff':
+        text = await this.kickoff(summary);
+        break;
+      case 'daily_checkin':
+        text = await this.dailyCheckin(summary);
+        break;
+      case 'explain_current_step':
+        text = this.explainCurrentStep(summary, args.question);
+        break;
+      default:
+        text = await this.buddyHandoff(summary, args.newBuddyEmail);
+        break;
+    }
+
+    return {
+      description: definition.description,
+      messages: [{ role: 'user', content: { type: 'text', text } }],
+    };
+  }
+
+  private static async kickoff(summary: OnboardeeSummary): Promise<string> {
+    const { profile } = summary;
+    const steps = await ConfigParser.getAllSteps(summary.track);
+
+    let text = `You are the onboarding assistant for ${profile.name} (${profile.email}). ` +
+      `Welcome them warmly, give a short overview of the plan below, then walk them through their current step. ` +
+      `Keep it conversational and ask whether they have questions before moving on. ` +
+      `When they say a step is done, record it with complete_step; finished checklist items go through complete_subtask.\n\n`;
+
+    text += this.formatProfile(summary);
+    text += `\n**Onboarding plan (${steps.length} steps):**\n`;
+    for (const step of steps) {
+      text += `- ${this.formatStepStatus(profile, step)}\n`;
+    }
+
+    text += `\n${this.formatCurrentStep(summary)}`;
+    return text;
+  }
+
+  private static async dailyCheckin(summary: OnboardeeSummary): Promise<string> {
+    const { profile, currentStep } = summary;
+
+    let text = `Run a short daily check-in with ${profile.name}. Ask what they got done since the last check-in, ` +
+      `whether anything is blocking them, and what they plan next. Record progress as they report it: ` +
+      `complete_subtask for checklist items, complete_step for finished steps, defer_step for optional steps they want to park. ` +
+      `If they are blocked, suggest asking their buddy${profile.buddyEmail ? ` (${profile.buddyEmail})` : ''} or the step owner.\n\n`;
+
+    text += this.formatProfile(summary);
+
+    const recent = EmployeeIdentifier.getHistory(profile).slice(-5);
+    if (recent.length > 0) {
+      text += `\n**Recent activity:**\n`;
+      for (const event of recent) {
+        text += `- ${ProgressSummary.formatDate(event.at)} ${event.type}${event.stepId !== undefined ? ` step ${event.stepId}` : ''}` +
+          `${event.reason ? ` (${event.reason})` : ''}\n`;
+      }
+    }
+
+    if (currentStep) {
+      const steps = await ConfigParser.getAllSteps(summary.track);
+      const since = StallDetector.getStepStart(profile, currentStep, steps);
+      const days = Math.max(0, Math.floor((Date.now() - since.getTime()) / (24 * 60 * 60 * 1000)));
+      text += `\nOn step ${currentStep.id} for ${days} day(s)` +
+        `${currentStep.estimatedTime ? ` (estimated time: ${currentStep.estimatedTime})` : ''}.\n`;
+    }
+
+    text += `\n${this.formatCurrentStep(summary)}`;
+    return text;
+  }
+
+  private static explainCurrentStep(summary: OnboardeeSummary, question?: string): string {
+    const { profile, currentStep } = summary;
+    if (!currentStep) {
+      return `${profile.name} has finished every onboarding step. Congratulate them and ask whether anything ` +
+        `from onboarding is still unclear.\n\n${this.formatProfile(summary)}`;
+    }
+
+    let text = `Explain step ${currentStep.id} (${currentStep.title}) to ${profile.name} in plain terms: ` +
+      `why it matters, what they need to do in order, and exactly what counts as done. ` +
+      `Point out which checklist items are still open. Do not mark anything complete unless they confirm it is done.\n\n`;
+    if (question) {
+      text += `They asked: "${question}". Answer that first.\n\n`;
+    }
+
+    text += this.formatProfile(summary);
+    text += `\n${this.formatCurrentStep(summary)}`;
+    return text;
+  }
+
+  private static async buddyHandoff(summary: OnboardeeSummary, newBuddyEmail?: string): Promise<string> {
+    const { profile } = summary;
+    const steps = await ConfigParser.getAllSteps(summary.track);
+
+    let text = `Write a handoff note for ${newBuddyEmail || 'the new onboarding buddy'} taking over ${profile.name}'s onboarding` +
+      `${profile.buddyEmail ? ` from ${profile.buddyEmail}` : ''}. Cover where they are, what they finished, ` +
+      `anything skipped or deferred (and why), the current step and what they may need help with next. ` +
+      `Keep it brief and factual, using only the details below.\n\n`;
+
+    text += this.formatProfile(summary);
+    text += `\n**Steps:**\n`;
+    for (const step of steps) {
+      text += `- ${this.formatStepStatus(profile, step)}\n`;
+    }
+
+    const { currentStep } = summary;
+    if (currentStep) {
+      text += `\n**Current step:** Step ${currentStep.id}: ${currentStep.title}`;
+      if (currentStep.completionCriteria) {
+        text += `\n**Done when:**\n${currentStep.completionCriteria}`;
+      }
+      text += `\n`;
+    }
+    return text;
+  }
+
+  private static formatProfile(summary: OnboardeeSummary): string {
+    const { profile } = summary;
+    let text = `**Employee:** ${profile.name} (${profile.email})\n`;
+    if (profile.department) {
+      text += `**Department:** ${profile.department}\n`;
+    }
+    text += `**Track:** ${summary.track}\n`;
+    text += `**Started:** ${ProgressSummary.formatDate(profile.startDate)} (${summary.daysSinceStart} day(s) ago)\n`;
+    text += `**Buddy:** ${profile.buddyEmail || 'none assigned'}\n`;
+    text += `**Progress:** ${summary.doneSteps}/${summary.totalSteps} steps (${summary.percentComplete}%)\n`;
+    return text;
+  }
+
+  private static formatStepStatus(profile: EmployeeProfile, step: OnboardingStep): string {
+    let status = 'not started';
+    const data = profile.stepData[step.id];
+    if (profile.completedSteps.includes(step.id)) {
+      status = 'completed';
+    } else if (profile.skippedSteps?.includes(step.id)) {
+      status = `skipped${data?.skipReason ? `: ${data.skipReason}` : ''}`;
+    } else if (profile.deferredSteps?.includes(step.id)) {
+      status = `deferred${data?.deferReason ? `: ${data.deferReason}` : ''}`;
+    } else if (step.id === profile.currentStep) {
+      status = 'current';
+    } else if (profile.unlockedSteps?.includes(step.id)) {
+      status = 'available';
+    }
+    return `Step ${step.id}: ${step.title}${step.required ? '' : ' (optional)'} - ${status}`;
+  }
+
+  private static formatCurrentStep(summary: OnboardeeSummary): string {
+    const { profile, currentStep } = summary;
+    if (!currentStep) {
+      return `All onboarding steps are complete.`;
+    }
+
+    const subtasks = profile.stepData[currentStep.id]?.subtasks || {};
+    return `**Current step** (${ResourceCatalog.getStepUri(currentStep.id, summary.track)}):\n\n` +
+      ResourceCatalog.resolveMarkdownLinks(ConfigParser.formatStepForAI(currentStep, subtasks));
+  }
+}
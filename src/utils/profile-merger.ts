@@ -0,0 +1,49 @@
+import { EmployeeProfile } from './employee-identifier.js';
+
+export class ProfileMerger {
+  /**
+   * Fold a stray profile into the real one. Progress from either profile
+   * counts (a completion beats a skip), the target's details win where both
+   * have them, and both histories are kept in time order.
+   */
+  static merge(source: EmployeeProfile, target: EmployeeProfile): EmployeeProfile {
+    const completedSteps = this.union(target.completedSteps, source.completedSteps);
+    const skippedSteps = this.union(target.skippedSteps || [], source.skippedSteps || [])
+      .filter(id => !completedSteps.includes(id));
+    const done = [...completedSteps, ...skippedSteps];
+    const deferredSteps = this.union(target.deferredSteps || [], source.deferredSteps || [])
+      .filter(id => !done.includes(id));
+
+    const stepData: Record<string, any> = {};
+    for (const stepId of new Set([...Object.keys(source.stepData), ...Object.keys(target.stepData)])) {
+      const fromSource = source.stepData[stepId] || {};
+      const fromTarget = target.stepData[stepId] || {};
+      stepData[stepId] = {
+        ...fromSource,
+        ...fromTarget,
+        subtasks: { ...fromSource.subtasks, ...fromTarget.subtasks },
+      };
+    }
+
+    const history = [...(target.history || []), ...(source.history || [])]
+      .sort((a, b) => a.at.localeCompare(b.at));
+
+    return {
+      ...target,
+      name: target.name || source.name,
+      startDate: source.startDate < target.startDate ? source.startDate : target.startDate,
+      buddyEmail: target.buddyEmail || source.buddyEmail,
+      department: target.department || source.department,
+      track: target.track || source.track,
+      completedSteps,
+      skippedSteps,
+      deferredSteps,
+      stepData,
+      history,
+    };
+  }
+
+  private static union(first: number[], second: number[]): number[] {
+    return [...new Set([...first, ...second])];
+  }
+}
@@ -0,0 +1,129 @@
+import { EmployeeProfile } from './employee-identifier.js';
+import { BASE_TRACK } from './config-parser.js';
+import { JsonProfileStore } from './json-profile-store.js';
+
+export type StorageKind = 'json' | 'sqlite';
+
+export const STORAGE_KINDS: StorageKind[] = ['json', 'sqlite'];
+
+/**
+ * Profile fields that can be queried without loading every profile
+ * (all comparisons are case-insensitive)
+ */
+export interface ProfileQuery {
+  buddyEmail?: string;
+  department?: string;
+  track?: string;
+}
+
+/**
+ * Thrown when a profile was saved by another session since it was loaded
+ */
+export class ProfileConflictError extends Error {
+  constructor(email: string, expectedRevision: number, actualRevision: number) {
+    super(`The onboarding profile for ${email} was changed by another session ` +
+      `(revision ${actualRevision}, expected ${expectedRevision}). Nothing was saved - load it again and retry.`);
+    this.name = 'ProfileConflictError';
+  }
+}
+
+/**
+ * Thrown when creating a profile for an email that already has one
+ */
+export class ProfileExistsError extends Error {
+  constructor(email: string) {
+    super(`An onboarding profile for ${email} already exists.`);
+    this.name = 'ProfileExistsError';
+  }
+}
+
+/**
+ * Thrown when a stored profile cannot be read; it is never replaced silently
+ */
+export class ProfileCorruptError extends Error {
+  constructor(email: string, location: string, cause: string) {
+    super(`The onboarding profile for ${email} is unreadable (${location}: ${cause}). ` +
+      `Run recover_profile to restore the last good copy.`);
+    this.name = 'ProfileCorruptError';
+  }
+}
+
+/**
+ * Persistence for employee profiles
+ */
+export interface ProfileStore {
+  readonly kind: StorageKind;
+  /** Load one profile, or null if there is none for this email; throws ProfileCorruptError */
+  get(email: string): Promise<EmployeeProfile | null>;
+  /**
+   * Atomically write a profile. With an expected revision the write only
+   * happens if the stored profile is still at that revision (ProfileConflictError otherwise).
+   */
+  save(profile: EmployeeProfile, expectedRevision?: number): Promise<void>;
+  /**
+   * Write a new profile only if none exists for its email, checked and
+   * written as one step (ProfileExistsError otherwise)
+   */
+  create(profile: EmployeeProfile): Promise<void>;
+  /**
+   * Set an unreadable profile aside and restore the last good copy;
+   * null when there is no usable copy
+   */
+  recover(email: string): Promise<EmployeeProfile | null>;
+  /** Remove a profile, keeping a copy aside */
+  delete(email: string): Promise<void>;
+  /** Every profile, most recently updated first */
+  list(): Promise<EmployeeProfile[]>;
+  /** Profiles matching every given field, most recently updated first */
+  query(query: ProfileQuery): Promise<EmployeeProfile[]>;
+  close(): Promise<void>;
+}
+
+export class ProfileStores {
+  /**
+   * Open the store selected by ONBOARDING_STORAGE (json by default)
+   */
+  static async fromEnvironment(dataPath: string): Promise<ProfileStore> {
+    return this.open(this.parseKind(process.env.ONBOARDING_STORAGE || 'json'), dataPath);
+  }
+
+  static async open(kind: StorageKind, dataPath: string): Promise<ProfileStore> {
+    if (kind === 'sqlite') {
+      // Loaded on demand so JSON users never need the native module
+      const { SqliteProfileStore } = await import('./sqlite-profile-store.js');
+      return SqliteProfileStore.open(dataPath);
+    }
+    return new JsonProfileStore(dataPath);
+  }
+
+  static parseKind(value: string): StorageKind {
+    const kind = value.trim().toLowerCase();
+    if (!STORAGE_KINDS.includes(kind as StorageKind)) {
+      throw new Error(`Unknown storage "${value}". Use one of: ${STORAGE_KINDS.join(', ')}`);
+    }
+    return kind as StorageKind;
+  }
+
+  /**
+   * Whether a profile matches a query, for stores that filter in memory
+   */
+  static matches(profile: Pick<EmployeeProfile, 'buddyEmail' | 'department' | 'track'>, query: ProfileQuery): boolean {
+    const matches = (value: string | undefined, expected: string | undefined) =>
+      !expected || (value || '').toLowerCase() === expected.toLowerCase();
+
+    return matches(profile.buddyEmail, query.buddyEmail) &&
+      matches(profile.department, query.department) &&
+      matches(profile.track || BASE_TRACK, query.track);
+  }
+
+  /**
+   * Revision of a stored profile; profiles saved before revisions existed count as 0
+   */
+  static getRevision(profile: EmployeeProfile | null): number {
+    return profile?.metadata.revision ?? 0;
+  }
+
+  static byLastUpdated(a: EmployeeProfile, b: EmployeeProfile): number {
+    return new Date(b.metadata.lastUpdated).getTime() - new Date(a.metadata.lastUpdated).getTime();
+  }
+}
@@ -0,0 +1,193 @@
+import { BASE_TRACK, ConfigParser } from './config-parser.js';
+import { EmployeeIdentifier, EmployeeProfile } from './employee-identifier.js';
+import { OnboardingStatus, ProgressSummary } from './progress-summary.js';
+import { StallDetector } from './stall-detector.js';
+import { StepStatus, ToolOutput } from './tool-output.js';
+
+export type ExportFormat = 'csv' | 'json' | 'markdown';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['csv', 'json', 'markdown'];
+
+export interface ExportFilter {
+  /** Only employees who started on or after this date (YYYY-MM-DD) */
+  from?: string;
+  /** Only employees who started on or before this date (YYYY-MM-DD) */
+  to?: string;
+  department?: string;
+  buddyEmail?: string;
+}
+
+/**
+ * One step of one employee's onboarding
+ */
+export interface ProgressExportRow {
+  email: string;
+  name: string;
+  department: string | null;
+  buddyEmail: string | null;
+  track: string;
+  startDate: string;
+  onboardingStatus: OnboardingStatus;
+  stepId: number;
+  stepTitle: string;
+  required: boolean;
+  stepStatus: StepStatus;
+  /** When the step could be started: the start date or when its dependencies were finished */
+  availableSince: string | null;
+  completedAt: string | null;
+  skippedAt: string | null;
+  /** Completion notes, or the reason the step was skipped */
+  notes: string | null;
+  /** Days from availableSince to completedAt, for completed steps */
+  daysToComplete: number | null;
+}
+
+export interface ProgressExport {
+  filters: ExportFilter;
+  employees: number;
+  rows: ProgressExportRow[];
+}
+
+const COLUMNS: (keyof ProgressExportRow)[] = [
+  'email', 'name', 'department', 'buddyEmail', 'track', 'startDate', 'onboardingStatus',
+  'stepId', 'stepTitle', 'required', 'stepStatus', 'availableSince', 'completedAt', 'skippedAt', 'notes', 'daysToComplete',
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Per-employee, per-step progress tables for reporting outside the chat
+ */
+export class ProgressExporter {
+  /**
+   * Collect a row for every step on each matching employee's track
+   */
+  static async collect(filter: ExportFilter = {}): Promise<ProgressExport> {
+    const from = this.parseDay(filter.from, 'from');
+    const to = this.parseDay(filter.to, 'to');
+
+    const profiles = (await EmployeeIdentifier.queryProfiles({ department: filter.department, buddyEmail: filter.buddyEmail }))
+      .filter(profile => {
+        const started = new Date(profile.startDate).getTime();
+        // "to" is inclusive, so anyone starting during that day counts
+        return (!from || started >= from.getTime()) && (!to || started < to.getTime() + DAY_MS);
+      })
+      .sort((a, b) => a.startDate.localeCompare(b.startDate) || a.email.localeCompare(b.email));
+
+    const rows: ProgressExportRow[] = [];
+    for (const profile of profiles) {
+      rows.push(...await this.collectProfile(profile));
+    }
+
+    return { filters: filter, employees: profiles.length, rows };
+  }
+
+  static format(data: ProgressExport, format: ExportFormat): string {
+    switch (format) {
+      case 'csv':
+        return this.toCsv(data.rows);
+      case 'json':
+        return JSON.stringify(data, null, 2);
+      case 'markdown':
+        return this.toMarkdown(data);
+    }
+  }
+
+  private static async collectProfile(profile: EmployeeProfile): Promise<ProgressExportRow[]> {
+    const summary = await ProgressSummary.summarize(profile);
+    const steps = await ConfigParser.getAllSteps(profile.track || BASE_TRACK);
+
+    return steps.map(step => {
+      const data = profile.stepData[step.id] || {};
+      const stepStatus = ToolOutput.stepStatus(profile, step.id);
+      const availableSince = stepStatus === 'locked' ? null : StallDetector.getStepStart(profile, step, steps).toISOString();
+      const completedAt = stepStatus === 'completed' ? data.completedAt || null : null;
+
+      return {
+        email: profile.email,
+        name: profile.name,
+        department: profile.department || null,
+        buddyEmail: profile.buddyEmail || null,
+        track: summary.track,
+        startDate: profile.startDate,
+        onboardingStatus: summary.status,
+        stepId: step.id,
+        stepTitle: step.title,
+        required: step.required,
+        stepStatus,
+        availableSince,
+        completedAt,
+        skippedAt: stepStatus === 'skipped' ? data.skippedAt || null : null,
+        notes: (stepStatus === 'skipped' ? data.skipReason : data.notes) || null,
+        daysToComplete: completedAt && availableSince
+          ? Math.max(0, Math.round((new Date(completedAt).getTime() - new Date(availableSince).getTime()) / DAY_MS * 10) / 10)
+          : null,
+      };
+    });
+  }
+
+  /**
+   * RFC 4180 CSV with a header row; timestamps stay ISO 8601 for spreadsheets
+   */
+  private static toCsv(rows: ProgressExportRow[]): string {
+    const escape = (value: unknown) => {
+      const text = value === null || value === undefined ? '' : String(value);
+      return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    };
+
+    const lines = [COLUMNS.join(',')];
+    for (const row of rows) {
+      lines.push(COLUMNS.map(column => escape(row[column])).join(','));
+    }
+    return `${lines.join('\r\n')}\r\n`;
+  }
+
+  /**
+   * One table per employee, in start date order
+   */
+  private static toMarkdown(data: ProgressExport): string {
+    const filters = [
+      data.filters.from && `started from ${data.filters.from}`,
+      data.filters.to && `started until ${data.filters.to}`,
+      data.filters.department && `department ${data.filters.department}`,
+      data.filters.buddyEmail && `buddy ${data.filters.buddyEmail}`,
+    ].filter(Boolean);
+
+    let text = `# Onboarding Progress Export\n\n`;
+    text += `Generated ${ProgressSummary.formatDateTime(new Date().toISOString())} | ${data.employees} employee(s)`;
+    text += filters.length > 0 ? ` | ${filters.join(', ')}\n` : '\n';
+    if (data.rows.length === 0) {
+      return `${text}\nNo employees match these filters.\n`;
+    }
+
+    const cell = (value: string | null) => (value || '').replace(/\|/g, '\\|').replace(/\s*\n\s*/g, ' ');
+    const day = (value: string | null) => value ? ProgressSummary.formatDate(value) : '';
+
+    let email: string | null = null;
+    for (const row of data.rows) {
+      if (row.email !== email) {
+        email = row.email;
+        text += `\n## ${cell(row.name)} (${row.email})\n\n`;
+        text += `Track: ${row.track} | Department: ${row.department || '-'} | Buddy: ${row.buddyEmail || '-'} | ` +
+          `Started: ${day(row.startDate)} | Status: ${row.onboardingStatus}\n\n`;
+        text += `| Step | Status | Available | Completed | Days | Notes |\n`;
+        text += `|------|--------|-----------|-----------|------|-------|\n`;
+      }
+      const title = `${row.stepId}. ${cell(row.stepTitle)}${row.required ? '' : ' (optional)'}`;
+      text += `| ${title} | ${row.stepStatus} | ${day(row.availableSince)} | ${day(row.completedAt || row.skippedAt)} | ` +
+        `${row.daysToComplete ?? ''} | ${cell(row.notes)} |\n`;
+    }
+    return text;
+  }
+
+  private static parseDay(value: string | undefined, name: string): Date | null {
+    if (!value) {
+      return null;
+    }
+    const date = new Date(`${value}T00:00:00.000Z`);
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(value) || isNaN(date.getTime())) {
+      throw new Error(`${name} must be a date like 2025-03-14, got "${value}"`);
+    }
+    return date;
+  }
+}
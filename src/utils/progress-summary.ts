@@ -0,0 +1,158 @@
+import { BASE_TRACK, ConfigParser, OnboardingStep } from './config-parser.js';
+import { EmployeeProfile } from './employee-identifier.js';
+import { StepGraph } from './step-graph.js';
+
+/** pending: imported ahead of a start date that hasn't come yet */
+export type OnboardingStatus = 'pending' | 'not_started' | 'in_progress' | 'completed';
+
+export const ONBOARDING_STATUSES: OnboardingStatus[] = ['pending', 'not_started', 'in_progress', 'completed'];
+
+export interface OnboardeeSummary {
+  profile: EmployeeProfile;
+  track: string;
+  status: OnboardingStatus;
+  totalSteps: number;
+  doneSteps: number;
+  percentComplete: number;
+  currentStep: OnboardingStep | null;
+  availableSteps: OnboardingStep[];
+  daysSinceStart: number;
+  msSinceLastUpdate: number;
+}
+
+export interface OnboardeeFilter {
+  buddyEmail?: string;
+  department?: string;
+  status?: OnboardingStatus;
+  track?: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class ProgressSummary {
+  /**
+   * Summarize one employee's progress against their own track
+   */
+  static async summarize(profile: EmployeeProfile, now: Date = new Date()): Promise<OnboardeeSummary> {
+    const track = profile.track || BASE_TRACK;
+    const steps = await ConfigParser.getAllSteps(track);
+    StepGraph.applyToProfile(profile, steps);
+
+    const stepIds = new Set(steps.map(step => step.id));
+    const doneSteps = StepGraph.getDoneStepIds(profile).filter(id => stepIds.has(id)).length;
+    const percentComplete = steps.length > 0 ? Math.round((doneSteps / steps.length) * 100) : 100;
+
+    let status: OnboardingStatus = 'in_progress';
+    if (this.isPending(profile, now)) {
+      status = 'pending';
+    } else if (doneSteps >= steps.length) {
+      status = 'completed';
+    } else if (doneSteps === 0 && (profile.deferredSteps?.length || 0) === 0) {
+      status = 'not_started';
+    }
+
+    return {
+      profile,
+      track,
+      status,
+      totalSteps: steps.length,
+      doneSteps,
+      percentComplete,
+      currentStep: steps.find(step => step.id === profile.currentStep) || null,
+      availableSteps: (profile.unlockedSteps || [])
+        .map(id => steps.find(step => step.id === id))
+        .filter((step): step is OnboardingStep => !!step),
+      daysSinceStart: Math.max(0, Math.floor((now.getTime() - new Date(profile.startDate).getTime()) / DAY_MS)),
+      msSinceLastUpdate: Math.max(0, now.getTime() - new Date(profile.metadata.lastUpdated).getTime()),
+    };
+  }
+
+  /**
+   * Whether the profile was imported ahead of a start date still in the future
+   */
+  static isPending(profile: EmployeeProfile, now: Date = new Date()): boolean {
+    return new Date(profile.startDate).getTime() > now.getTime();
+  }
+
+  /**
+   * Summarize every profile matching the filter (all filters are case-insensitive)
+   */
+  static async summarizeAll(
+    profiles: EmployeeProfile[],
+    filter: OnboardeeFilter = {},
+    now: Date = new Date()
+  ): Promise<OnboardeeSummary[]> {
+    const matches = (value: string | undefined, expected: string | undefined) =>
+      !expected || (value || '').toLowerCase() === expected.toLowerCase();
+
+    const summaries: OnboardeeSummary[] = [];
+    for (const profile of profiles) {
+      if (!matches(profile.buddyEmail, filter.buddyEmail) ||
+          !matches(profile.department, filter.department) ||
+          !matches(profile.track || BASE_TRACK, filter.track)) {
+        continue;
+      }
+
+      const summary = await this.summarize(profile, now);
+      if (!filter.status || summary.status === filter.status) {
+        summaries.push(summary);
+      }
+    }
+
+    return summaries;
+  }
+
+  /**
+   * Format a duration as "3 days", "5 hours" or "12 minutes"
+   */
+  static formatDuration(ms: number): string {
+    const minutes = Math.floor(ms / 60000);
+    const hours = Math.floor(minutes / 60);
+    const days = Math.floor(hours / 24);
+
+    if (days > 0) {
+      return `${days} day${days === 1 ? '' : 's'}`;
+    }
+    if (hours > 0) {
+      return `${hours} hour${hours === 1 ? '' : 's'}`;
+    }
+    return `${minutes} minute${minutes === 1 ? '' : 's'}`;
+  }
+
+  /**
+   * Format a timestamp as "2025-03-14" (UTC), the same on every server locale
+   */
+  static formatDate(timestamp: string): string {
+    const date = new Date(timestamp);
+    return isNaN(date.getTime()) ? 'unknown date' : date.toISOString().slice(0, 10);
+  }
+
+  /**
+   * Format a timestamp as "2025-03-14 09:30 UTC"
+   */
+  static formatDateTime(timestamp: string): string {
+    const date = new Date(timestamp);
+    return isNaN(date.getTime()) ? 'unknown date' : `${date.toISOString().slice(0, 16).replace('T', ' ')} UTC`;
+  }
+
+  /**
+   * One-line progress summary used by the dashboard tools
+   */
+  static formatSummaryLine(summary: OnboardeeSummary): string {
+    const { profile } = summary;
+    let current = summary.currentStep
+      ? `Step ${summary.currentStep.id}: ${summary.currentStep.title}`
+      : `Step ${profile.currentStep}`;
+    if (summary.status === 'completed') {
+      current = 'All steps done';
+    } else if (summary.status === 'pending') {
+      current = `Starts ${this.formatDate(profile.startDate)}`;
+    }
+
+    const sinceStart = summary.status === 'pending' ? '' : `${summary.daysSinceStart} days since start | `;
+
+    return `**${profile.name}** (${profile.email}) - ${summary.percentComplete}% complete ` +
+      `(${summary.doneSteps}/${summary.totalSteps}) | ${current} | ` +
+      `${sinceStart}last update ${this.formatDuration(summary.msSinceLastUpdate)} ago`;
+  }
+}
@@ -0,0 +1,222 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { BASE_TRACK, ConfigParser, OnboardingStep } from './config-parser.js';
+import { HtmlToMarkdown } from './html-to-markdown.js';
+
+export interface OnboardingResource {
+  uri: string;
+  name: string;
+  description?: string;
+  mimeType: string;
+}
+
+export interface OnboardingResourceTemplate {
+  uriTemplate: string;
+  name: string;
+  description?: string;
+  mimeType: string;
+}
+
+export interface ResourceContents {
+  uri: string;
+  mimeType: string;
+  text: string;
+}
+
+/**
+ * An HTML link collection in config/resources, e.g. wiki-links.html
+ */
+export interface ResourceCollection {
+  name: string;
+  file: string;
+  title: string;
+  description?: string;
+}
+
+const URI_SCHEME = 'onboarding://';
+const MARKDOWN = 'text/markdown';
+
+/**
+ * Step documents and resource collections exposed as MCP resources:
+ * onboarding://steps/{id}, onboarding://tracks/{track}/steps/{id} and
+ * onboarding://resources/{name}, all rendered as Markdown
+ */
+export class ResourceCatalog {
+  /**
+   * Base-track steps and every resource collection
+   */
+  static async listResources(): Promise<OnboardingResource[]> {
+    const steps = await ConfigParser.getAllSteps(BASE_TRACK);
+    const collections = await this.loadCollections();
+
+    return [
+      ...steps.map(step => ({
+        uri: this.getStepUri(step.id),
+        name: `Step ${step.id}: ${step.title}`,
+        description: step.description || undefined,
+        mimeType: MARKDOWN,
+      })),
+      ...collections.map(collection => ({
+        uri: this.getCollectionUri(collection.name),
+        name: collection.title,
+        description: collection.description,
+        mimeType: MARKDOWN,
+      })),
+    ];
+  }
+
+  static listTemplates(): OnboardingResourceTemplate[] {
+    return [
+      {
+        uriTemplate: `${URI_SCHEME}steps/{stepId}`,
+        name: 'Onboarding step',
+        description: `A step of the ${BASE_TRACK} onboarding track as Markdown`,
+        mimeType: MARKDOWN,
+      },
+      {
+        uriTemplate: `${URI_SCHEME}tracks/{track}/steps/{stepId}`,
+        name: 'Onboarding step on a track',
+        description: 'A step as it appears on a specific onboarding track, e.g. onboarding://tracks/pm/steps/2',
+        mimeType: MARKDOWN,
+      },
+      {
+        uriTemplate: `${URI_SCHEME}resources/{name}`,
+        name: 'Resource collection',
+        description: 'A collection of links from config/resources, e.g. onboarding://resources/wiki',
+        mimeType: MARKDOWN,
+      },
+    ];
+  }
+
+  /**
+   * Render a resource; unknown URIs throw
+   */
+  static async readResource(uri: string): Promise<ResourceContents> {
+    const stepMatch = uri.match(/^onboarding:\/\/(?:tracks\/([\w-]+)\/)?steps\/(\d+)$/);
+    if (stepMatch) {
+      const track = stepMatch[1] || BASE_TRACK;
+      if (!(await ConfigParser.loadTrack(track))) {
+        throw new Error(`Unknown onboarding track "${track}" in ${uri}`);
+      }
+
+      const step = await ConfigParser.getStep(parseInt(stepMatch[2], 10), track);
+      if (!step) {
+        throw new Error(`No step ${stepMatch[2]} on the ${track} track (${uri})`);
+      }
+      return { uri, mimeType: MARKDOWN, text: this.formatStep(step) };
+    }
+
+    const collectionMatch = uri.match(/^onboarding:\/\/resources\/([\w-]+)$/);
+    if (collectionMatch) {
+      const collections = await this.loadCollections();
+      const collection = collections.find(c => c.name === collectionMatch[1]);
+      if (!collection) {
+        throw new Error(`Unknown resource collection in ${uri}. Available: ${collections.map(c => c.name).join(', ') || 'none'}`);
+      }
+
+      return { uri, mimeType: MARKDOWN, text: await this.readCollection(collection) };
+    }
+
+    throw new Error(`Unknown resource URI ${uri}`);
+  }
+
+  static getStepUri(stepId: number, track: string = BASE_TRACK): string {
+    return track === BASE_TRACK
+      ? `${URI_SCHEME}steps/${stepId}`
+      : `${URI_SCHEME}tracks/${track}/steps/${stepId}`;
+  }
+
+  /**
+   * A step document with its metadata, content and links (relative links
+   * resolved against ONBOARDING_RESOURCE_BASE_URL), rendered like the tools show it
+   */
+  static formatStep(step: OnboardingStep): string {
+    let text = ConfigParser.renderStep(step);
+    if (!step.isMarkdown) {
+      // Markdown steps have this in their own header line; HTML steps get it under the title heading
+      const details = [
+        `**Type:** ${step.type}`,
+        `**Required:** ${step.required ? 'Yes' : 'No'}`,
+        step.estimatedTime && `**Estimated Time:** ${step.estimatedTime}`,
+      ].filter(Boolean);
+      const headingEnd = text.indexOf('\n\n');
+      text = `${text.slice(0, headingEnd)}\n\n${details.join(' | ')}${text.slice(headingEnd)}`;
+    }
+
+    if (step.resources && step.resources.length > 0) {
+      text += `\n\n## Links in this step\n\n`;
+      text += step.resources.map(link => `- ${link}`).join('\n');
+    }
+
+    return this.resolveMarkdownLinks(text);
+  }
+
+  static getCollectionUri(name: string): string {
+    return `${URI_SCHEME}resources/${name}`;
+  }
+
+  /**
+   * A resource collection as Markdown, with its links resolved
+   */
+  static async readCollection(collection: ResourceCollection): Promise<string> {
+    const html = await fs.readFile(collection.file, 'utf-8');
+    return this.resolveMarkdownLinks(HtmlToMarkdown.convert(html));
+  }
+
+  /**
+   * Resolve relative Markdown link targets against ONBOARDING_RESOURCE_BASE_URL
+   */
+  static resolveMarkdownLinks(markdown: string): string {
+    return markdown.replace(/(\]\()([^)\s]+)(\))/g, (_, open: string, url: string, close: string) =>
+      `${open}${this.resolveUrl(url)}${close}`
+    );
+  }
+
+  /**
+   * Resolve a relative link against ONBOARDING_RESOURCE_BASE_URL; absolute
+   * links, anchors and links without a configured base are left as they are
+   */
+  static resolveUrl(url: string): string {
+    const baseUrl = process.env.ONBOARDING_RESOURCE_BASE_URL;
+    if (!baseUrl || /^[a-z][a-z0-9+.-]*:/i.test(url) || url.startsWith('#')) {
+      return url;
+    }
+
+    try {
+      // Site-relative links ("/wiki/x") live under the base too, not at its host root
+      return new URL(url.replace(/^\/+/, ''), baseUrl.endsWith('/') ? baseUrl : `${baseUrl}/`).toString();
+    } catch (error) {
+      return url;
+    }
+  }
+
+  /**
+   * Read the title and description of each config/resources/*.html file; the
+   * collection name comes from data-resource-type, or the file name
+   */
+  static async loadCollections(): Promise<ResourceCollection[]> {
+    const folder = path.join(ConfigParser.getConfigPath(), 'resources');
+    let files: string[];
+    try {
+      files = (await fs.readdir(folder)).filter(file => file.endsWith('.html')).sort();
+    } catch (error) {
+      return [];
+    }
+
+    const collections: ResourceCollection[] = [];
+    for (const file of files) {
+      const html = await fs.readFile(path.join(folder, file), 'utf-8');
+      const type = html.match(/data-resource-type="([^"]+)"/i)?.[1];
+      const title = html.match(/<h[1-3][^>]*>([\s\S]*?)<\/h[1-3]>/i)?.[1];
+      const description = html.match(/<p[^>]*>([\s\S]*?)<\/p>/i)?.[1];
+
+      collections.push({
+        name: type || file.replace(/\.html$/, '').replace(/-links$/, ''),
+        file: path.join(folder, file),
+        title: title ? HtmlToMarkdown.convert(title) : file,
+        description: description ? HtmlToMarkdown.convert(description) : undefined,
+      });
+    }
+    return collections;
+  }
+}
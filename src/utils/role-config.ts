@@ -0,0 +1,85 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { ConfigParser } from './config-parser.js';
+
+export type Role = 'new_hire' | 'buddy' | 'manager' | 'admin';
+
+/** Least to most privileged */
+export const ROLES: Role[] = ['new_hire', 'buddy', 'manager', 'admin'];
+
+/**
+ * config/roles.json: the emails holding each role. Anyone not listed is a new hire.
+ */
+export type RolesConfig = Record<Exclude<Role, 'new_hire'>, string[]>;
+
+export class RoleConfig {
+  static getRolesFilePath(): string {
+    return process.env.ONBOARDING_ROLES_FILE || path.join(ConfigParser.getConfigPath(), 'roles.json');
+  }
+
+  /**
+   * Read config/roles.json; null when the file doesn't exist (roles are not
+   * enforced for local, single-user setups), an error when it is broken
+   */
+  static async load(): Promise<RolesConfig | null> {
+    const rolesFile = this.getRolesFilePath();
+    let raw: Record<string, unknown>;
+    try {
+      raw = JSON.parse(await fs.readFile(rolesFile, 'utf-8'));
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return null;
+      }
+      throw new Error(`Invalid roles config ${rolesFile}: ${error.message}`);
+    }
+
+    const unknownRoles = Object.keys(raw).filter(role => !ROLES.includes(role as Role) || role === 'new_hire');
+    if (unknownRoles.length > 0) {
+      throw new Error(`Invalid roles config ${rolesFile}: unknown role(s) ${unknownRoles.join(', ')} ` +
+        `(expected buddy, manager, admin; everyone else is a new_hire)`);
+    }
+
+    const emails = (role: string) => {
+      const list = raw[role] || [];
+      if (!Array.isArray(list) || list.some(email => typeof email !== 'string')) {
+        throw new Error(`Invalid roles config ${rolesFile}: "${role}" must be a list of emails`);
+      }
+      return list.map(email => email.trim().toLowerCase());
+    };
+
+    return { buddy: emails('buddy'), manager: emails('manager'), admin: emails('admin') };
+  }
+
+  /**
+   * Say on the server log when there is no roles file, so a missing file
+   * doesn't quietly change who may do what
+   */
+  static async logEnforcement(transport: 'stdio' | 'http'): Promise<void> {
+    if (await this.load()) {
+      return;
+    }
+    const consequence = transport === 'stdio'
+      ? 'role checks are OFF and every tool is open to this machine\'s user'
+      : 'every HTTP caller is a new hire';
+    console.error(`[Roles] ${this.getRolesFilePath()} not found: ${consequence}. ` +
+      `Copy config/roles.example.json to roles.json to assign roles.`);
+  }
+
+  /**
+   * The most privileged role listed for the email
+   */
+  static async getRole(email: string): Promise<Role> {
+    const config = await this.load();
+    const normalized = email.trim().toLowerCase();
+    if (!config) {
+      return 'new_hire';
+    }
+
+    for (const role of [...ROLES].reverse()) {
+      if (role !== 'new_hire' && config[role].includes(normalized)) {
+        return role;
+      }
+    }
+    return 'new_hire';
+  }
+}
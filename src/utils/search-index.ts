@@ -0,0 +1,306 @@
+import { BASE_TRACK, ConfigParser, OnboardingConfig, OnboardingStep } from './config-parser.js';
+import { ResourceCatalog } from './resource-catalog.js';
+import { StepSections } from './step-sections.js';
+import { StringDistance } from './string-distance.js';
+
+export type SearchHitKind = 'step' | 'resource';
+
+export interface SearchHit {
+  kind: SearchHitKind;
+  /** Step hits only */
+  stepId?: number;
+  /** Step or resource collection title */
+  title: string;
+  /** Tracks the step belongs to; empty for resource collections */
+  tracks: string[];
+  /** Step section name (see get_current_step's `section`); null for the step summary and collections */
+  section: string | null;
+  heading: string | null;
+  uri: string;
+  snippet: string;
+  /** Links in the matching text whose label or address matches the query */
+  links: string[];
+  score: number;
+}
+
+export interface SearchResults {
+  query: string;
+  total: number;
+  hits: SearchHit[];
+}
+
+interface SearchDocument {
+  kind: SearchHitKind;
+  stepId?: number;
+  title: string;
+  tracks: string[];
+  section: string | null;
+  heading: string | null;
+  uri: string;
+  text: string;
+  /** Term frequencies, with title and heading words counted extra */
+  terms: Map<string, number>;
+  length: number;
+}
+
+interface Index {
+  /** The configuration the index was built from; a new one means ConfigParser reloaded */
+  source: OnboardingConfig;
+  documents: SearchDocument[];
+  /** Number of documents containing each term */
+  documentFrequency: Map<string, number>;
+  averageLength: number;
+}
+
+/** Title and heading words count this many times their body occurrences */
+const HEADING_WEIGHT = 3;
+const SNIPPET_BEFORE = 60;
+const SNIPPET_AFTER = 140;
+
+/** Words that would match nearly everything in a question like "where was the link for the VPN?" */
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'at', 'be', 'can', 'do', 'does', 'for', 'find', 'from', 'how', 'i', 'in', 'is', 'it',
+  'link', 'me', 'my', 'of', 'on', 'or', 'the', 'to', 'was', 'what', 'where', 'which', 'with',
+]);
+
+export class SearchIndex {
+  private static index: Index | null = null;
+
+  /**
+   * Ranked hits for a free-text query over step sections, completion criteria,
+   * step links and the collections in config/resources. Query words match
+   * exactly, as a prefix (3+ letters) or with a typo or two.
+   */
+  static async search(query: string, options: { track?: string; limit?: number } = {}): Promise<SearchResults> {
+    const index = await this.getIndex();
+    const queryTerms = [...new Set(this.tokenize(query).filter(term => !STOP_WORDS.has(term)))];
+    if (queryTerms.length === 0) {
+      throw new Error('Search query has no words to look for (common words like "the" or "where" are ignored)');
+    }
+
+    const vocabulary = [...index.documentFrequency.keys()];
+    const expansions = queryTerms.map(term => this.expandTerm(term, vocabulary));
+
+    const scored: { document: SearchDocument; score: number; matched: string[] }[] = [];
+    for (const document of index.documents) {
+      if (options.track && document.kind === 'step' && !document.tracks.includes(options.track)) {
+        continue;
+      }
+
+      let score = 0;
+      let matchedTerms = 0;
+      const matched: string[] = [];
+      for (const expansion of expansions) {
+        let best = 0;
+        for (const { term, quality } of expansion) {
+          const frequency = document.terms.get(term);
+          if (!frequency) {
+            continue;
+          }
+          matched.push(term);
+          best = Math.max(best, quality * this.weigh(frequency, document.length, term, index));
+        }
+        if (best > 0) {
+          score += best;
+          matchedTerms++;
+        }
+      }
+
+      if (score > 0) {
+        // Documents matching every word beat ones matching a single word many times
+        const coverage = matchedTerms / queryTerms.length;
+        scored.push({ document, score: score * coverage * coverage, matched });
+      }
+    }
+
+    scored.sort((a, b) => b.score - a.score);
+    const limit = options.limit ?? 10;
+
+    return {
+      query,
+      total: scored.length,
+      hits: scored.slice(0, limit).map(({ document, score, matched }) => ({
+        kind: document.kind,
+        stepId: document.stepId,
+        title: document.title,
+        tracks: document.tracks,
+        section: document.section,
+        heading: document.heading,
+        uri: document.uri,
+        snippet: this.getSnippet(document.text, matched),
+        links: this.getMatchingLinks(document.text, matched),
+        score: Math.round(score * 1000) / 1000,
+      })),
+    };
+  }
+
+  /**
+   * The index for the current configuration, rebuilt whenever ConfigParser has
+   * re-read the files (its cached configuration object changes)
+   */
+  private static async getIndex(): Promise<Index> {
+    const source = await ConfigParser.loadConfiguration();
+    if (!this.index || this.index.source !== source) {
+      this.index = await this.build(source);
+    }
+    return this.index;
+  }
+
+  private static async build(source: OnboardingConfig): Promise<Index> {
+    const documents: SearchDocument[] = [];
+
+    // Every step file once, with the tracks it is part of
+    const steps = new Map<string, { step: OnboardingStep; tracks: string[] }>();
+    for (const track of await ConfigParser.listTracks()) {
+      const config = track.name === BASE_TRACK ? source : await ConfigParser.loadTrackConfiguration(track.name);
+      for (const step of config.steps) {
+        const key = step.sourceFile || `${track.name}/${step.id}`;
+        const entry = steps.get(key) || { step, tracks: [] };
+        entry.tracks.push(track.name);
+        steps.set(key, entry);
+      }
+    }
+
+    for (const { step, tracks } of steps.values()) {
+      const uri = ResourceCatalog.getStepUri(step.id, tracks.includes(BASE_TRACK) ? BASE_TRACK : tracks[0]);
+      const title = `Step ${step.id}: ${step.title}`;
+      const add = (section: string | null, heading: string | null, text: string) => documents.push(this.createDocument(
+        { kind: 'step', stepId: step.id, title, tracks, section, heading, uri },
+        ResourceCatalog.resolveMarkdownLinks(text)
+      ));
+
+      const outline = StepSections.outline(step);
+      add(null, null, outline.summary);
+      for (const section of outline.sections) {
+        add(section.name, section.heading, section.content);
+      }
+
+      // Criteria from front-matter and links outside the step body aren't in any section
+      const body = `${outline.summary}\n${outline.sections.map(section => section.content).join('\n')}`;
+      if (step.completionCriteria && !outline.sections.some(section => section.name === 'completion-criteria')) {
+        add('completion-criteria', 'Completion criteria', step.completionCriteria);
+      }
+      const extraLinks = (step.resources || []).filter(link => !body.includes(link));
+      if (extraLinks.length > 0) {
+        add('links', 'Links in this step', extraLinks.map(link => `- ${link}`).join('\n'));
+      }
+    }
+
+    for (const collection of await ResourceCatalog.loadCollections()) {
+      const uri = ResourceCatalog.getCollectionUri(collection.name);
+      const { summary, sections } = StepSections.splitMarkdown(await ResourceCatalog.readCollection(collection));
+      const base = { kind: 'resource' as const, title: collection.title, tracks: [], section: null, uri };
+      documents.push(this.createDocument({ ...base, heading: null }, summary));
+      for (const section of sections) {
+        documents.push(this.createDocument({ ...base, heading: section.heading }, section.content));
+      }
+    }
+
+    const documentFrequency = new Map<string, number>();
+    for (const document of documents) {
+      for (const term of document.terms.keys()) {
+        documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1);
+      }
+    }
+    const averageLength = documents.reduce((sum, document) => sum + document.length, 0) / (documents.length || 1);
+
+    return { source, documents, documentFrequency, averageLength };
+  }
+
+  private static createDocument(
+    fields: Omit<SearchDocument, 'text' | 'terms' | 'length'>,
+    text: string
+  ): SearchDocument {
+    const terms = new Map<string, number>();
+    const count = (words: string[], weight: number) => {
+      for (const word of words) {
+        terms.set(word, (terms.get(word) || 0) + weight);
+      }
+    };
+
+    const words = this.tokenize(text);
+    count(words, 1);
+    count(this.tokenize(`${fields.title} ${fields.heading || ''}`), HEADING_WEIGHT);
+    return { ...fields, text, terms, length: words.length };
+  }
+
+  /**
+   * Vocabulary terms a query word stands for, with how much a match counts
+   */
+  private static expandTerm(term: string, vocabulary: string[]): { term: string; quality: number }[] {
+    // Roughly one typo per four letters, none for short words
+    const maxDistance = term.length >= 8 ? 2 : term.length >= 4 ? 1 : 0;
+
+    const expansion: { term: string; quality: number }[] = [];
+    for (const candidate of vocabulary) {
+      if (candidate === term) {
+        expansion.push({ term: candidate, quality: 1 });
+      } else if (term.length >= 3 && candidate.startsWith(term)) {
+        expansion.push({ term: candidate, quality: 0.8 });
+      } else if (maxDistance > 0 && Math.abs(candidate.length - term.length) <= maxDistance
+        && StringDistance.levenshtein(term, candidate) <= maxDistance) {
+        expansion.push({ term: candidate, quality: 0.6 });
+      }
+    }
+    return expansion;
+  }
+
+  /**
+   * BM25 weight of a term in a document
+   */
+  private static weigh(frequency: number, length: number, term: string, index: Index): number {
+    const documents = index.documents.length;
+    const containing = index.documentFrequency.get(term) || 0;
+    const idf = Math.log(1 + (documents - containing + 0.5) / (containing + 0.5));
+    const normalized = frequency / (frequency + 1.2 * (0.25 + 0.75 * length / (index.averageLength || 1)));
+    return idf * normalized;
+  }
+
+  private static tokenize(text: string): string[] {
+    return text
+      .toLowerCase()
+      .normalize('NFKD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .match(/[\p{L}\p{N}]+/gu) || [];
+  }
+
+  /**
+   * The text around the first matching word, on one line
+   */
+  private static getSnippet(text: string, matched: string[]): string {
+    const flat = text.replace(/\s+/g, ' ').trim();
+    const lower = flat.toLowerCase();
+
+    let position = -1;
+    for (const term of matched) {
+      const found = lower.search(new RegExp(`(^|[^\\p{L}\\p{N}])${this.escapeRegex(term)}`, 'u'));
+      if (found >= 0 && (position < 0 || found < position)) {
+        position = found;
+      }
+    }
+    if (position < 0) {
+      position = 0;
+    }
+
+    let start = Math.max(0, position - SNIPPET_BEFORE);
+    let end = Math.min(flat.length, position + SNIPPET_AFTER);
+    if (start > 0) {
+      start = flat.indexOf(' ', start) + 1 || start;
+    }
+    if (end < flat.length) {
+      end = flat.lastIndexOf(' ', end) > position ? flat.lastIndexOf(' ', end) : end;
+    }
+    return `${start > 0 ? '…' : ''}${flat.slice(start, end).trim()}${end < flat.length ? '…' : ''}`;
+  }
+
+  private static getMatchingLinks(text: string, matched: string[]): string[] {
+    const matchedTerms = new Set(matched);
+    return [...new Set(text.match(/\[[^\]]+\]\([^)\s]+\)/g) || [])]
+      .filter(link => this.tokenize(link).some(term => matchedTerms.has(term)))
+      .slice(0, 5);
+  }
+
+  private static escapeRegex(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  }
+}
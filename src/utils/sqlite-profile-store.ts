@@ -0,0 +1,223 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import Database from 'better-sqlite3';
+import { BASE_TRACK } from './config-parser.js';
+import { EmployeeProfile } from './employee-identifier.js';
+import {
+  ProfileConflictError,
+  ProfileCorruptError,
+  ProfileExistsError,
+  ProfileQuery,
+  ProfileStore,
+  ProfileStores,
+} from './profile-store.js';
+
+const DATABASE_FILE = 'onboarding.sqlite';
+
+/**
+ * All profiles in one embedded SQLite database; the queryable fields are
+ * kept in their own indexed columns next to the full profile JSON, and the
+ * previous version of each profile is kept for recovery
+ */
+export class SqliteProfileStore implements ProfileStore {
+  readonly kind = 'sqlite' as const;
+
+  private constructor(private db: Database.Database) {}
+
+  /**
+   * Open (and if needed create) the database in the data directory
+   */
+  static async open(dataPath: string): Promise<SqliteProfileStore> {
+    await fs.mkdir(dataPath, { recursive: true });
+
+    const db = new Database(path.join(dataPath, DATABASE_FILE));
+    db.pragma('journal_mode = WAL');
+    // Wait for other server processes instead of failing with SQLITE_BUSY
+    db.pragma('busy_timeout = 5000');
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS profiles (
+        email TEXT PRIMARY KEY,
+        buddy_email TEXT COLLATE NOCASE,
+        department TEXT COLLATE NOCASE,
+        track TEXT NOT NULL COLLATE NOCASE,
+        current_step INTEGER NOT NULL,
+        last_updated TEXT NOT NULL,
+        revision INTEGER NOT NULL DEFAULT 0,
+        data TEXT NOT NULL,
+        previous_data TEXT
+      );
+      CREATE TABLE IF NOT EXISTS corrupt_profiles (
+        email TEXT NOT NULL,
+        data TEXT NOT NULL,
+        set_aside_at TEXT NOT NULL
+      );
+      CREATE TABLE IF NOT EXISTS deleted_profiles (
+        email TEXT NOT NULL,
+        data TEXT NOT NULL,
+        deleted_at TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS profiles_buddy_email ON profiles (buddy_email);
+      CREATE INDEX IF NOT EXISTS profiles_department ON profiles (department);
+      CREATE INDEX IF NOT EXISTS profiles_track ON profiles (track);
+    `);
+
+    // Databases created before revisions were tracked
+    const columns = (db.prepare('PRAGMA table_info(profiles)').all() as Array<{ name: string }>).map(c => c.name);
+    if (!columns.includes('revision')) {
+      db.exec('ALTER TABLE profiles ADD COLUMN revision INTEGER NOT NULL DEFAULT 0');
+    }
+    if (!columns.includes('previous_data')) {
+      db.exec('ALTER TABLE profiles ADD COLUMN previous_data TEXT');
+    }
+
+    return new SqliteProfileStore(db);
+  }
+
+  async get(email: string): Promise<EmployeeProfile | null> {
+    const row = this.db.prepare('SELECT data FROM profiles WHERE email = ?').get(email) as { data: string } | undefined;
+    return row ? this.parse(email, row.data) : null;
+  }
+
+  async save(profile: EmployeeProfile, expectedRevision?: number): Promise<void> {
+    // IMMEDIATE takes the write lock before reading, so the revision check and the write are atomic
+    this.db.transaction(() => {
+      const current = this.db.prepare('SELECT revision FROM profiles WHERE email = ?').get(profile.email) as
+        { revision: number } | undefined;
+      if (expectedRevision !== undefined && current && current.revision !== expectedRevision) {
+        throw new ProfileConflictError(profile.email, expectedRevision, current.revision);
+      }
+
+      this.db.prepare(`
+        INSERT INTO profiles (email, buddy_email, department, track, current_step, last_updated, revision, data)
+        VALUES (@email, @buddyEmail, @department, @track, @currentStep, @lastUpdated, @revision, @data)
+        ON CONFLICT (email) DO UPDATE SET
+          buddy_email = excluded.buddy_email,
+          department = excluded.department,
+          track = excluded.track,
+          current_step = excluded.current_step,
+          last_updated = excluded.last_updated,
+          revision = excluded.revision,
+          previous_data = profiles.data,
+          data = excluded.data
+      `).run(this.toRow(profile));
+    }).immediate();
+  }
+
+  async create(profile: EmployeeProfile): Promise<void> {
+    // No upsert: the primary key rejects a second profile for the same email
+    try {
+      this.db.prepare(`
+        INSERT INTO profiles (email, buddy_email, department, track, current_step, last_updated, revision, data)
+        VALUES (@email, @buddyEmail, @department, @track, @currentStep, @lastUpdated, @revision, @data)
+      `).run(this.toRow(profile));
+    } catch (error: any) {
+      if (error.code === 'SQLITE_CONSTRAINT_PRIMARYKEY') {
+        throw new ProfileExistsError(profile.email);
+      }
+      throw error;
+    }
+  }
+
+  async recover(email: string): Promise<EmployeeProfile | null> {
+    return this.db.transaction(() => {
+      const row = this.db.prepare('SELECT data, previous_data FROM profiles WHERE email = ?').get(email) as
+        { data: string; previous_data: string | null } | undefined;
+      if (!row) {
+        return null;
+      }
+
+      this.db.prepare('INSERT INTO corrupt_profiles (email, data, set_aside_at) VALUES (?, ?, ?)')
+        .run(email, row.data, new Date().toISOString());
+
+      let backup: EmployeeProfile | null = null;
+      try {
+        backup = row.previous_data ? JSON.parse(row.previous_data) : null;
+      } catch (error) {
+        backup = null;
+      }
+
+      if (backup) {
+        this.db.prepare('UPDATE profiles SET data = previous_data, previous_data = NULL, revision = ? WHERE email = ?')
+          .run(ProfileStores.getRevision(backup), email);
+      } else {
+        this.db.prepare('DELETE FROM profiles WHERE email = ?').run(email);
+      }
+      return backup;
+    }).immediate();
+  }
+
+  async delete(email: string): Promise<void> {
+    this.db.transaction(() => {
+      const moved = this.db.prepare(`
+        INSERT INTO deleted_profiles (email, data, deleted_at)
+        SELECT email, data, ? FROM profiles WHERE email = ?
+      `).run(new Date().toISOString(), email);
+      if (moved.changes === 0) {
+        throw new Error(`No onboarding profile found for ${email}.`);
+      }
+      this.db.prepare('DELETE FROM profiles WHERE email = ?').run(email);
+    }).immediate();
+  }
+
+  async list(): Promise<EmployeeProfile[]> {
+    return this.query({});
+  }
+
+  async query(query: ProfileQuery): Promise<EmployeeProfile[]> {
+    const conditions: string[] = [];
+    const params: Record<string, string> = {};
+
+    if (query.buddyEmail) {
+      conditions.push('buddy_email = @buddyEmail');
+      params.buddyEmail = query.buddyEmail;
+    }
+    if (query.department) {
+      conditions.push('department = @department');
+      params.department = query.department;
+    }
+    if (query.track) {
+      conditions.push('track = @track');
+      params.track = query.track;
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const rows = this.db
+      .prepare(`SELECT data FROM profiles ${where} ORDER BY last_updated DESC`)
+      .all(params) as Array<{ data: string }>;
+
+    const profiles: EmployeeProfile[] = [];
+    for (const row of rows) {
+      try {
+        profiles.push(JSON.parse(row.data));
+      } catch (error) {
+        console.warn('Failed to read a stored profile:', error);
+      }
+    }
+    return profiles;
+  }
+
+  async close(): Promise<void> {
+    this.db.close();
+  }
+
+  private toRow(profile: EmployeeProfile) {
+    return {
+      email: profile.email,
+      buddyEmail: profile.buddyEmail ?? null,
+      department: profile.department ?? null,
+      track: profile.track || BASE_TRACK,
+      currentStep: profile.currentStep,
+      lastUpdated: profile.metadata.lastUpdated,
+      revision: ProfileStores.getRevision(profile),
+      data: JSON.stringify(profile),
+    };
+  }
+
+  private parse(email: string, data: string): EmployeeProfile {
+    try {
+      return JSON.parse(data);
+    } catch (error: any) {
+      throw new ProfileCorruptError(email, `${DATABASE_FILE} row ${email}`, error.message);
+    }
+  }
+}
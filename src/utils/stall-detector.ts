@@ -0,0 +1,190 @@
+import { BASE_TRACK, ConfigParser, OnboardingStep } from './config-parser.js';
+import { EmployeeProfile } from './employee-identifier.js';
+import { OnboardeeSummary, ProgressSummary } from './progress-summary.js';
+import { StepGraph } from './step-graph.js';
+
+export interface StalledOnboarding {
+  summary: OnboardeeSummary;
+  step: OnboardingStep;
+  onStepSince: string;
+  daysOnStep: number;
+  expectedDays: number;
+  hasEstimate: boolean;
+  overdueRatio: number;
+  daysSinceUpdate: number;
+  suggestions: string[];
+}
+
+export interface StallOptions {
+  buddyEmail?: string;
+  department?: string;
+  /** Flag employees once time on step exceeds expected days times this factor */
+  threshold?: number;
+  /** Expected days for steps without a readable estimated time */
+  defaultExpectedDays?: number;
+  now?: Date;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_EXPECTED_DAYS = 7;
+const IDLE_DAYS = 7;
+
+export class StallDetector {
+  /**
+   * Find employees who have been on their current step longer than the step's
+   * expected duration, most overdue first
+   */
+  static async findStalled(profiles: EmployeeProfile[], options: StallOptions = {}): Promise<StalledOnboarding[]> {
+    const now = options.now || new Date();
+    const threshold = options.threshold ?? 1;
+    const defaultExpectedDays = options.defaultExpectedDays ?? DEFAULT_EXPECTED_DAYS;
+
+    const summaries = await ProgressSummary.summarizeAll(profiles, {
+      buddyEmail: options.buddyEmail,
+      department: options.department,
+    }, now);
+
+    const stalled: StalledOnboarding[] = [];
+    for (const summary of summaries) {
+      if (summary.status === 'completed' || summary.status === 'pending') {
+        continue;
+      }
+
+      const step = this.getBlockingStep(summary);
+      if (!step) {
+        continue;
+      }
+
+      const steps = await ConfigParser.getAllSteps(summary.profile.track || BASE_TRACK);
+      const onStepSince = this.getStepStart(summary.profile, step, steps);
+      const daysOnStep = (now.getTime() - onStepSince.getTime()) / DAY_MS;
+      const expectedDays = step.expectedDuration?.calendarDays.max || defaultExpectedDays;
+      const overdueRatio = daysOnStep / expectedDays;
+
+      if (overdueRatio < threshold) {
+        continue;
+      }
+
+      const entry: StalledOnboarding = {
+        summary,
+        step,
+        onStepSince: onStepSince.toISOString(),
+        daysOnStep,
+        expectedDays,
+        hasEstimate: !!step.expectedDuration,
+        overdueRatio,
+        daysSinceUpdate: summary.msSinceLastUpdate / DAY_MS,
+        suggestions: [],
+      };
+      entry.suggestions = this.suggestFollowUps(entry);
+      stalled.push(entry);
+    }
+
+    return stalled.sort((a, b) =>
+      b.overdueRatio - a.overdueRatio || b.daysSinceUpdate - a.daysSinceUpdate
+    );
+  }
+
+  /**
+   * The step holding the employee up: the first unlocked required step they
+   * haven't deferred, else a deferred required one. Optional steps never count,
+   * so someone with only optional steps left is not stalled.
+   */
+  private static getBlockingStep(summary: OnboardeeSummary): OnboardingStep | null {
+    const deferred = summary.profile.deferredSteps || [];
+    const required = summary.availableSteps.filter(step => step.required);
+    return required.find(step => !deferred.includes(step.id)) || required[0] || null;
+  }
+
+  /**
+   * When the employee could start a step: their start date, the moment the
+   * last of its dependencies was completed or skipped, or when it was reopened
+   */
+  static getStepStart(profile: EmployeeProfile, step: OnboardingStep, steps: OnboardingStep[]): Date {
+    let start = new Date(profile.startDate).getTime();
+
+    for (const dependency of StepGraph.getDependencies(step, steps)) {
+      const data = profile.stepData[dependency];
+      const doneAt = data?.completedAt || data?.skippedAt;
+      if (doneAt) {
+        start = Math.max(start, new Date(doneAt).getTime());
+      }
+    }
+
+    // A reopened step starts over
+    const reopenedAt = profile.stepData[step.id]?.reopenedAt;
+    if (reopenedAt) {
+      start = Math.max(start, new Date(reopenedAt).getTime());
+    }
+
+    return new Date(start);
+  }
+
+  /**
+   * Render the ranked list for the tool and the CLI report
+   */
+  static formatReport(stalled: StalledOnboarding[]): string {
+    if (stalled.length === 0) {
+      return '✅ No stalled onboardings. Everyone is within the expected time for their current step.';
+    }
+
+    let text = `**Stalled Onboardings (${stalled.length})**\n\n`;
+
+    stalled.forEach((entry, index) => {
+      const { profile } = entry.summary;
+      text += `${index + 1}. **${profile.name}** (${profile.email})`;
+      if (profile.buddyEmail) {
+        text += ` - buddy ${profile.buddyEmail}`;
+      }
+      text += '\n';
+      text += `   Step ${entry.step.id}: ${entry.step.title}\n`;
+      text += `   On this step for ${Math.floor(entry.daysOnStep)} days (since ${entry.onStepSince.slice(0, 10)}), `;
+      text += entry.hasEstimate
+        ? `expected at most ${this.formatDays(entry.expectedDays)} (${entry.step.estimatedTime})`
+        : `no estimate, default ${this.formatDays(entry.expectedDays)}`;
+      text += ` - ${entry.overdueRatio.toFixed(1)}x\n`;
+      text += `   Last update: ${ProgressSummary.formatDuration(entry.daysSinceUpdate * DAY_MS)} ago\n`;
+      for (const suggestion of entry.suggestions) {
+        text += `   → ${suggestion}\n`;
+      }
+      text += '\n';
+    });
+
+    return text;
+  }
+
+  private static suggestFollowUps(entry: StalledOnboarding): string[] {
+    const { profile } = entry.summary;
+    const firstName = profile.name.split(' ')[0];
+    const suggestions: string[] = [];
+
+    if (profile.buddyEmail) {
+      suggestions.push(`Ask ${profile.buddyEmail} to check in with ${firstName} about "${entry.step.title}"`);
+    } else {
+      suggestions.push(`Assign an onboarding buddy to ${firstName}`);
+    }
+
+    if (entry.daysSinceUpdate >= IDLE_DAYS) {
+      suggestions.push(`No progress recorded for ${Math.floor(entry.daysSinceUpdate)} days - confirm ${firstName} is still using the onboarding assistant`);
+    }
+
+    if (!entry.step.required) {
+      suggestions.push(`Step ${entry.step.id} is optional - suggest skip_step or defer_step so it stops holding things up`);
+    }
+
+    if (/approv|deliver|request/i.test(entry.step.estimatedTime || '')) {
+      suggestions.push('This step waits on approvals or deliveries - follow up on any outstanding requests');
+    }
+
+    if (entry.overdueRatio >= 2) {
+      suggestions.push(`More than twice the expected time - escalate to ${firstName}'s manager`);
+    }
+
+    return suggestions;
+  }
+
+  private static formatDays(days: number): string {
+    const rounded = Math.round(days * 10) / 10;
+    return `${rounded} day${rounded === 1 ? '' : 's'}`;
+  }
+}
@@ -0,0 +1,93 @@
+import { OnboardingStep } from './config-parser.js';
+import { EmployeeProfile } from './employee-identifier.js';
+
+export class StepGraph {
+  /**
+   * Get the steps a step waits on: its declared dependsOn, or by default the
+   * nearest preceding required step (optional steps never block implicitly)
+   */
+  static getDependencies(step: OnboardingStep, steps: OnboardingStep[]): number[] {
+    const stepIds = new Set(steps.map(s => s.id));
+
+    if (step.dependsOn) {
+      // Dependencies removed by the employee's track no longer block
+      return step.dependsOn.filter(id => id !== step.id && stepIds.has(id));
+    }
+
+    const previousRequired = steps
+      .filter(s => s.id < step.id && s.required)
+      .sort((a, b) => b.id - a.id)[0];
+
+    return previousRequired ? [previousRequired.id] : [];
+  }
+
+  /**
+   * Get the steps that are not done yet but have all their dependencies done
+   */
+  static getUnlockedSteps(steps: OnboardingStep[], doneStepIds: number[]): number[] {
+    const done = new Set(doneStepIds);
+
+    return steps
+      .filter(step => !done.has(step.id))
+      .filter(step => this.getDependencies(step, steps).every(id => done.has(id)))
+      .map(step => step.id)
+      .sort((a, b) => a - b);
+  }
+
+  /**
+   * Get the not-done dependencies that keep a step locked
+   */
+  static getBlockingSteps(step: OnboardingStep, steps: OnboardingStep[], doneStepIds: number[]): number[] {
+    const done = new Set(doneStepIds);
+    return this.getDependencies(step, steps).filter(id => !done.has(id));
+  }
+
+  /**
+   * Get every step that waits on a step, directly or through other steps
+   */
+  static getDependents(stepId: number, steps: OnboardingStep[]): number[] {
+    const dependents = new Set<number>();
+    const queue = [stepId];
+
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+      for (const step of steps) {
+        if (!dependents.has(step.id) && step.id !== stepId && this.getDependencies(step, steps).includes(current)) {
+          dependents.add(step.id);
+          queue.push(step.id);
+        }
+      }
+    }
+
+    return [...dependents].sort((a, b) => a - b);
+  }
+
+  /**
+   * Get the steps that no longer block anything: completed or skipped
+   */
+  static getDoneStepIds(profile: EmployeeProfile): number[] {
+    return [...profile.completedSteps, ...(profile.skippedSteps || [])];
+  }
+
+  /**
+   * Recompute the profile's unlocked steps and current step for its step list.
+   * Deferred steps are queued after every other unlocked step, in deferral order.
+   */
+  static applyToProfile(profile: EmployeeProfile, steps: OnboardingStep[]): void {
+    const unlocked = this.getUnlockedSteps(steps, this.getDoneStepIds(profile));
+    const deferred = (profile.deferredSteps || []).filter(id => unlocked.includes(id));
+
+    profile.unlockedSteps = [
+      ...unlocked.filter(id => !deferred.includes(id)),
+      ...deferred
+    ];
+
+    if (profile.unlockedSteps.length > 0) {
+      profile.currentStep = profile.unlockedSteps[0];
+    } else {
+      // Nothing left to unlock: point past the last step, as before
+      const lastStep = steps.length > 0 ? Math.max(...steps.map(s => s.id)) : 0;
+      profile.currentStep = Math.max(lastStep + 1, profile.currentStep);
+    }
+  }
+}
@@ -0,0 +1,161 @@
+import { ChecklistParser, SubtaskState } from './checklist-parser.js';
+import { CompletionChecker } from './completion-checks.js';
+import { ConfigParser, OnboardingStep } from './config-parser.js';
+import { HtmlToMarkdown } from './html-to-markdown.js';
+
+export interface StepSection {
+  /** Name to ask for, e.g. "instructions" */
+  name: string;
+  heading: string;
+  /** The section's Markdown, heading included */
+  content: string;
+}
+
+export interface StepOutline {
+  /** Title, header line and description: everything before the first section */
+  summary: string;
+  sections: StepSection[];
+}
+
+/** Asking for this section returns the summary and the list of sections only */
+export const SUMMARY_SECTION = 'summary';
+
+/**
+ * Names for the usual Markdown headings, matching the class of the <div>
+ * that holds the same section in HTML steps
+ */
+const SECTION_ALIASES: { name: string; pattern: RegExp }[] = [
+  { name: 'instructions', pattern: /what you need to do|instructions/i },
+  { name: 'completion-criteria', pattern: /complete when|completion criteria/i },
+  { name: 'primary-resource', pattern: /primary (guide|resource)/i },
+  { name: 'best-practices', pattern: /tips for success|best practices/i },
+];
+
+export class StepSections {
+  /**
+   * Split a step at its top-level headings (the shallowest level below the title)
+   */
+  static outline(step: OnboardingStep): StepOutline {
+    const { summary, sections } = this.splitMarkdown(ConfigParser.renderStep(step));
+    const htmlClasses = step.isMarkdown ? new Map<string, string>() : this.getHtmlSectionClasses(step.content);
+    const used = new Set<string>();
+
+    return {
+      summary,
+      sections: sections.map(section => {
+        const base = htmlClasses.get(section.heading) || this.getAlias(section.heading) || this.slugify(section.heading) || 'section';
+        let name = base;
+        for (let suffix = 2; used.has(name); suffix++) {
+          name = `${base}-${suffix}`;
+        }
+        used.add(name);
+        return { name, ...section };
+      }),
+    };
+  }
+
+  /**
+   * Split any Markdown document at its shallowest level of ## (or deeper)
+   * headings, ignoring headings inside code fences
+   */
+  static splitMarkdown(markdown: string): { summary: string; sections: Omit<StepSection, 'name'>[] } {
+    const lines = markdown.split('\n');
+    const headingLevels: (number | null)[] = [];
+    let inFence = false;
+    for (const line of lines) {
+      if (/^(```|~~~)/.test(line)) {
+        inFence = !inFence;
+      }
+      const match = !inFence && line.match(/^(#{2,6})\s+\S/);
+      headingLevels.push(match ? match[1].length : null);
+    }
+
+    const levels = headingLevels.filter((level): level is number => level !== null);
+    let sectionLevel = Math.min(...levels);
+    // A lone heading opening the document is its title, not a section
+    const firstContent = lines.findIndex(line => line.trim() !== '');
+    const deeper = levels.filter(level => level > sectionLevel);
+    if (levels.filter(level => level === sectionLevel).length === 1 && headingLevels[firstContent] === sectionLevel && deeper.length > 0) {
+      sectionLevel = Math.min(...deeper);
+    }
+    const summary: string[] = [];
+    const sections: { heading: string; lines: string[] }[] = [];
+
+    lines.forEach((line, index) => {
+      if (headingLevels[index] === sectionLevel) {
+        sections.push({ heading: line.replace(/^#+\s*/, '').trim(), lines: [] });
+      }
+      (sections.length > 0 ? sections[sections.length - 1].lines : summary).push(line);
+    });
+
+    return {
+      summary: summary.join('\n').trim(),
+      sections: sections.map(section => ({ heading: section.heading, content: section.lines.join('\n').trim() })),
+    };
+  }
+
+  /**
+   * The step's summary plus one named section (or just the summary), followed
+   * by the sections that can be asked for next
+   */
+  static formatSection(step: OnboardingStep, name: string, subtaskState?: Record<string, SubtaskState>): string {
+    const outline = this.outline(step);
+    const wanted = this.slugify(name);
+
+    let text = outline.summary;
+    if (wanted !== SUMMARY_SECTION) {
+      const section = this.findSection(outline.sections, wanted);
+      if (!section) {
+        const available = [SUMMARY_SECTION, ...outline.sections.map(s => s.name)].join(', ');
+        throw new Error(`Step ${step.id} has no section "${name}". Available sections: ${available}`);
+      }
+
+      text += `\n\n${section.content}`;
+      // The live checklist and checks belong with the parts of the step they come from
+      if (section.name === 'instructions' && subtaskState && step.subtasks) {
+        text += `\n\n${ChecklistParser.formatChecklist(step.subtasks, subtaskState)}`;
+      }
+      if (section.name === 'completion-criteria' && step.checks && step.checks.length > 0) {
+        text += `\n\n${CompletionChecker.formatChecks(step.checks)}`;
+      }
+    }
+
+    if (outline.sections.length > 0) {
+      text += `\n\n**Sections** (ask for one with \`section\`):\n`;
+      text += outline.sections.map(s => `- \`${s.name}\`: ${s.heading}`).join('\n');
+    }
+    return text;
+  }
+
+  private static findSection(sections: StepSection[], wanted: string): StepSection | undefined {
+    return sections.find(s => s.name === wanted)
+      || sections.find(s => this.slugify(s.heading) === wanted)
+      || sections.find(s => s.name.startsWith(wanted));
+  }
+
+  /**
+   * Map the text of each heading that opens a classed <div>/<section> to the
+   * class, e.g. "What You Need to Do:" -> "instructions"
+   */
+  private static getHtmlSectionClasses(html: string): Map<string, string> {
+    const classes = new Map<string, string>();
+    const regex = /<(?:div|section)\b[^>]*\bclass="([^"]+)"[^>]*>\s*<h([1-6])[^>]*>([\s\S]*?)<\/h\2>/gi;
+    let match;
+    while ((match = regex.exec(html)) !== null) {
+      classes.set(HtmlToMarkdown.convert(match[3]), match[1].trim().split(/\s+/)[0]);
+    }
+    return classes;
+  }
+
+  private static getAlias(heading: string): string | undefined {
+    return SECTION_ALIASES.find(alias => alias.pattern.test(heading))?.name;
+  }
+
+  private static slugify(text: string): string {
+    return text
+      .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '');
+  }
+}
@@ -0,0 +1,39 @@
+export class StringDistance {
+  /**
+   * Levenshtein edit distance (insertions, deletions and substitutions)
+   */
+  static levenshtein(a: string, b: string): number {
+    if (a === b) {
+      return 0;
+    }
+    if (!a.length || !b.length) {
+      return a.length || b.length;
+    }
+
+    let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+    for (let i = 1; i <= a.length; i++) {
+      const current = [i];
+      for (let j = 1; j <= b.length; j++) {
+        const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+        current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      }
+      previous = current;
+    }
+    return previous[b.length];
+  }
+
+  /**
+   * Candidates within roughly one typo per four characters of the query, closest first
+   */
+  static closest(query: string, candidates: string[], limit = 3): string[] {
+    const normalized = query.trim().toLowerCase();
+    const maxDistance = Math.max(2, Math.floor(normalized.length / 4));
+
+    return candidates
+      .map(candidate => ({ candidate, distance: this.levenshtein(normalized, candidate.toLowerCase()) }))
+      .filter(entry => entry.distance <= maxDistance)
+      .sort((a, b) => a.distance - b.distance || a.candidate.localeCompare(b.candidate))
+      .slice(0, limit)
+      .map(entry => entry.candidate);
+  }
+}
@@ -0,0 +1,654 @@
+import { OnboardingStep } from './config-parser.js';
+import { EmployeeProfile } from './employee-identifier.js';
+import { IMPORT_FORMATS } from './employee-importer.js';
+import { ONBOARDING_STATUSES, OnboardeeSummary, OnboardingStatus } from './progress-summary.js';
+import { ResourceCatalog } from './resource-catalog.js';
+
+export type StepStatus = 'completed' | 'skipped' | 'deferred' | 'available' | 'locked';
+
+export const STEP_STATUSES: StepStatus[] = ['completed', 'skipped', 'deferred', 'available', 'locked'];
+
+export type CompletionOutcome =
+  | 'completed'
+  | 'already_completed'
+  | 'skipped'
+  | 'not_on_track'
+  | 'locked'
+  | 'subtasks_pending'
+  | 'checks_failed';
+
+export const COMPLETION_OUTCOMES: CompletionOutcome[] = [
+  'completed',
+  'already_completed',
+  'skipped',
+  'not_on_track',
+  'locked',
+  'subtasks_pending',
+  'checks_failed',
+];
+
+/**
+ * A step as returned in structuredContent
+ */
+export type StepOutput = {
+  id: number;
+  title: string;
+  description: string;
+  type: string;
+  required: boolean;
+  estimatedTime: string | null;
+  owner: string | null;
+  tags: string[];
+  dependsOn: number[];
+  resources: string[];
+  completionCriteria: string | null;
+  /** Only present when the step is shown for a specific employee */
+  status?: StepStatus;
+};
+
+/**
+ * An employee's progress as returned in structuredContent
+ */
+export type ProgressOutput = {
+  email: string;
+  name: string;
+  department: string | null;
+  buddyEmail: string | null;
+  track: string;
+  startDate: string;
+  lastUpdated: string;
+  status: OnboardingStatus;
+  totalSteps: number;
+  doneSteps: number;
+  percentComplete: number;
+  currentStep: StepOutput | null;
+  availableSteps: StepOutput[];
+  completedSteps: number[];
+  skippedSteps: number[];
+  deferredSteps: number[];
+};
+
+/**
+ * A step with the employee's outcome for it (get_progress)
+ */
+export type StepProgressOutput = StepOutput & {
+  completedAt: string | null;
+  skippedAt: string | null;
+  skipReason: string | null;
+  deferredAt: string | null;
+  deferReason: string | null;
+};
+
+const nullable = (type: string) => ({ type: [type, 'null'] });
+
+const STEP_SCHEMA = {
+  type: 'object',
+  properties: {
+    id: { type: 'number' },
+    title: { type: 'string' },
+    description: { type: 'string' },
+    type: { type: 'string' },
+    required: { type: 'boolean' },
+    estimatedTime: nullable('string'),
+    owner: nullable('string'),
+    tags: { type: 'array', items: { type: 'string' } },
+    dependsOn: { type: 'array', items: { type: 'number' } },
+    resources: { type: 'array', items: { type: 'string' }, description: 'Markdown links from the step content' },
+    completionCriteria: nullable('string'),
+    status: { type: 'string', enum: STEP_STATUSES },
+  },
+  required: ['id', 'title', 'type', 'required', 'resources', 'completionCriteria'],
+};
+
+const STEP_PROGRESS_SCHEMA = {
+  ...STEP_SCHEMA,
+  properties: {
+    ...STEP_SCHEMA.properties,
+    completedAt: nullable('string'),
+    skippedAt: nullable('string'),
+    skipReason: nullable('string'),
+    deferredAt: nullable('string'),
+    deferReason: nullable('string'),
+  },
+};
+
+const STEP_ANALYTICS_SCHEMA = {
+  type: 'object',
+  properties: {
+    stepId: { type: 'number' },
+    title: { type: 'string' },
+    required: { type: 'boolean' },
+    eligible: { type: 'number' },
+    reached: { type: 'number' },
+    completed: { type: 'number' },
+    skipped: { type: 'number' },
+    open: { type: 'number' },
+    completionRate: { type: 'number', description: 'Completed / eligible, 0-1' },
+    dropOffRate: { type: 'number', description: 'Reached but not finished / reached, 0-1' },
+    medianDays: nullable('number'),
+    p90Days: nullable('number'),
+    samples: { type: 'number', description: 'Completed steps the durations are based on' },
+  },
+  required: ['stepId', 'title', 'eligible', 'reached', 'completed', 'skipped', 'open', 'completionRate', 'dropOffRate', 'medianDays', 'p90Days', 'samples'],
+};
+
+const ANALYTICS_GROUP_SCHEMA = {
+  type: 'object',
+  properties: {
+    key: { type: 'string', description: 'Start month (YYYY-MM), department, or "all"' },
+    employees: { type: 'number' },
+    completedOnboarding: { type: 'number' },
+    steps: { type: 'array', items: STEP_ANALYTICS_SCHEMA },
+  },
+  required: ['key', 'employees', 'completedOnboarding', 'steps'],
+};
+
+const PROGRESS_PROPERTIES = {
+  email: { type: 'string' },
+  name: { type: 'string' },
+  department: nullable('string'),
+  buddyEmail: nullable('string'),
+  track: { type: 'string' },
+  startDate: { type: 'string', description: 'ISO 8601 timestamp' },
+  lastUpdated: { type: 'string', description: 'ISO 8601 timestamp' },
+  status: { type: 'string', enum: ONBOARDING_STATUSES },
+  totalSteps: { type: 'number' },
+  doneSteps: { type: 'number' },
+  percentComplete: { type: 'number' },
+  currentStep: { anyOf: [STEP_SCHEMA, { type: 'null' }] },
+  availableSteps: { type: 'array', items: STEP_SCHEMA },
+  completedSteps: { type: 'array', items: { type: 'number' } },
+  skippedSteps: { type: 'array', items: { type: 'number' } },
+  deferredSteps: { type: 'array', items: { type: 'number' } },
+};
+
+const PROGRESS_REQUIRED = ['email', 'name', 'track', 'status', 'totalSteps', 'doneSteps', 'percentComplete', 'currentStep'];
+
+const PROGRESS_SCHEMA = {
+  type: 'object',
+  properties: PROGRESS_PROPERTIES,
+  required: PROGRESS_REQUIRED,
+};
+
+const EVENT_SCHEMA = {
+  type: 'object',
+  properties: {
+    type: { type: 'string' },
+    at: { type: 'string' },
+    stepId: { type: 'number' },
+    reason: { type: 'string' },
+    details: { type: 'object' },
+  },
+  required: ['type', 'at'],
+};
+
+const STEP_ACTION_SCHEMA = {
+  type: 'object',
+  properties: {
+    stepId: { type: 'number' },
+    outcome: { type: 'string', enum: ['done', 'refused'] },
+    reason: nullable('string'),
+    refusal: { type: 'string', description: 'Why the action was refused' },
+    progress: PROGRESS_SCHEMA,
+  },
+  required: ['stepId', 'outcome', 'progress'],
+};
+
+/**
+ * outputSchema of every tool, keyed by tool name
+ */
+export const OUTPUT_SCHEMAS = {
+  start_onboarding: {
+    type: 'object',
+    properties: { ...PROGRESS_PROPERTIES, created: { type: 'boolean', description: 'True when a new profile was created' } },
+    required: [...PROGRESS_REQUIRED, 'created'],
+  },
+  get_current_step: {
+    type: 'object',
+    properties: {
+      ...PROGRESS_PROPERTIES,
+      section: { ...nullable('string'), description: 'The section that was asked for, if any' },
+      sections: {
+        type: 'array',
+        description: 'Sections of the current step that can be asked for',
+        items: { type: 'object', properties: { name: { type: 'string' }, heading: { type: 'string' } }, required: ['name', 'heading'] },
+      },
+    },
+    required: [...PROGRESS_REQUIRED, 'sections'],
+  },
+  complete_step: {
+    type: 'object',
+    properties: {
+      stepId: { type: 'number' },
+      outcome: { type: 'string', enum: COMPLETION_OUTCOMES },
+      step: { anyOf: [STEP_SCHEMA, { type: 'null' }] },
+      blockedBy: { type: 'array', items: { type: 'number' }, description: 'Steps to finish first when locked' },
+      pendingSubtasks: {
+        type: 'array',
+        items: { type: 'object', properties: { id: { type: 'string' }, text: { type: 'string' } }, required: ['id', 'text'] },
+      },
+      checkResults: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            type: { type: 'string' },
+            description: { type: 'string' },
+            passed: { type: 'boolean' },
+            message: { type: 'string' },
+            skipped: { type: 'boolean', description: 'Not run because the server can\'t see the employee\'s machine' },
+          },
+          required: ['description', 'passed', 'message'],
+        },
+      },
+      unlockedSteps: { type: 'array', items: STEP_SCHEMA, description: 'Steps unlocked by this completion' },
+      progress: PROGRESS_SCHEMA,
+    },
+    required: ['stepId', 'outcome', 'step', 'progress'],
+  },
+  complete_subtask: {
+    type: 'object',
+    properties: {
+      stepId: { type: 'number' },
+      undo: { type: 'boolean' },
+      changed: { type: 'array', items: { type: 'string' }, description: 'IDs of the items checked off or unchecked' },
+      checklist: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            text: { type: 'string' },
+            section: nullable('string'),
+            required: { type: 'boolean' },
+            done: { type: 'boolean' },
+            completedAt: nullable('string'),
+          },
+          required: ['id', 'text', 'required', 'done'],
+        },
+      },
+      pendingRequired: { type: 'number' },
+      readyToComplete: { type: 'boolean' },
+    },
+    required: ['stepId', 'undo', 'changed', 'checklist', 'pendingRequired', 'readyToComplete'],
+  },
+  skip_step: STEP_ACTION_SCHEMA,
+  defer_step: STEP_ACTION_SCHEMA,
+  reopen_step: {
+    ...STEP_ACTION_SCHEMA,
+    properties: {
+      ...STEP_ACTION_SCHEMA.properties,
+      reopenedSteps: { type: 'array', items: { type: 'number' } },
+      stillDone: { type: 'array', items: { type: 'number' }, description: 'Dependent steps that stay finished' },
+    },
+  },
+  get_progress: {
+    type: 'object',
+    properties: {
+      ...PROGRESS_PROPERTIES,
+      steps: { type: 'array', items: STEP_PROGRESS_SCHEMA },
+      history: { type: 'array', items: EVENT_SCHEMA },
+    },
+    required: [...PROGRESS_REQUIRED, 'steps', 'history'],
+  },
+  get_all_steps: {
+    type: 'object',
+    properties: {
+      track: { type: 'string' },
+      steps: { type: 'array', items: STEP_SCHEMA },
+    },
+    required: ['track', 'steps'],
+  },
+  search_onboarding: {
+    type: 'object',
+    properties: {
+      query: { type: 'string' },
+      total: { type: 'number', description: 'Number of matching documents, before the limit' },
+      hits: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            kind: { type: 'string', enum: ['step', 'resource'] },
+            stepId: { type: 'number' },
+            title: { type: 'string' },
+            tracks: { type: 'array', items: { type: 'string' } },
+            section: nullable('string'),
+            heading: nullable('string'),
+            uri: { type: 'string' },
+            snippet: { type: 'string' },
+            links: { type: 'array', items: { type: 'string' } },
+            score: { type: 'number' },
+          },
+          required: ['kind', 'title', 'uri', 'snippet', 'score'],
+        },
+      },
+    },
+    required: ['query', 'total', 'hits'],
+  },
+  list_onboardees: {
+    type: 'object',
+    properties: {
+      filters: { type: 'object' },
+      onboardees: { type: 'array', items: PROGRESS_SCHEMA },
+    },
+    required: ['onboardees'],
+  },
+  get_buddy_overview: {
+    type: 'object',
+    properties: {
+      buddyEmail: { type: 'string' },
+      finished: { type: 'number' },
+      mentees: { type: 'array', items: PROGRESS_SCHEMA },
+    },
+    required: ['buddyEmail', 'mentees'],
+  },
+  find_stalled_onboardings: {
+    type: 'object',
+    properties: {
+      stalled: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            progress: PROGRESS_SCHEMA,
+            step: STEP_SCHEMA,
+            onStepSince: { type: 'string' },
+            daysOnStep: { type: 'number' },
+            expectedDays: { type: 'number' },
+            hasEstimate: { type: 'boolean' },
+            overdueRatio: { type: 'number' },
+            daysSinceUpdate: { type: 'number' },
+            suggestions: { type: 'array', items: { type: 'string' } },
+          },
+          required: ['progress', 'step', 'daysOnStep', 'expectedDays'],
+        },
+      },
+    },
+    required: ['stalled'],
+  },
+  validate_config: {
+    type: 'object',
+    properties: {
+      valid: { type: 'boolean', description: 'True when there are no errors' },
+      stepCount: { type: 'number' },
+      fileCount: { type: 'number' },
+      errorCount: { type: 'number' },
+      warningCount: { type: 'number' },
+      diagnostics: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            severity: { type: 'string', enum: ['error', 'warning', 'info'] },
+            file: { type: 'string' },
+            stepId: { type: 'number' },
+            field: { type: 'string' },
+            message: { type: 'string' },
+          },
+          required: ['severity', 'file', 'message'],
+        },
+      },
+    },
+    required: ['valid', 'errorCount', 'warningCount', 'diagnostics'],
+  },
+  whoami: {
+    type: 'object',
+    properties: {
+      status: { type: 'string', enum: ['resolved', 'ambiguous', 'unknown'] },
+      email: nullable('string'),
+      /** null when config/roles.json doesn't exist */
+      role: nullable('string'),
+      source: nullable('string'),
+      confidence: nullable('string'),
+      candidates: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            email: { type: 'string' },
+            source: { type: 'string' },
+            confidence: { type: 'string' },
+            detail: { type: 'string' },
+          },
+          required: ['email', 'source', 'confidence'],
+        },
+      },
+      attempts: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            source: { type: 'string' },
+            email: { type: 'string' },
+            confidence: { type: 'string' },
+            skipped: { type: 'string' },
+          },
+          required: ['source'],
+        },
+      },
+      profile: {
+        anyOf: [
+          {
+            type: 'object',
+            properties: { name: { type: 'string' }, track: { type: 'string' }, currentStep: { type: 'number' } },
+            required: ['name', 'track', 'currentStep'],
+          },
+          { type: 'null' },
+        ],
+      },
+    },
+    required: ['status', 'email', 'attempts', 'profile'],
+  },
+  merge_profiles: {
+    type: 'object',
+    properties: {
+      sourceEmail: { type: 'string' },
+      targetEmail: { type: 'string' },
+      carriedOverSteps: { type: 'array', items: { type: 'number' } },
+      progress: PROGRESS_SCHEMA,
+    },
+    required: ['sourceEmail', 'targetEmail', 'carriedOverSteps', 'progress'],
+  },
+  recover_profile: {
+    type: 'object',
+    properties: {
+      email: { type: 'string' },
+      recovered: { type: 'boolean' },
+      restoredFrom: { ...nullable('string'), description: 'When the restored copy was saved' },
+      progress: { anyOf: [PROGRESS_SCHEMA, { type: 'null' }] },
+    },
+    required: ['email', 'recovered', 'progress'],
+  },
+  register_employee: {
+    type: 'object',
+    properties: { ...PROGRESS_PROPERTIES, created: { type: 'boolean' } },
+    required: [...PROGRESS_REQUIRED, 'created'],
+  },
+  import_employees: {
+    type: 'object',
+    properties: {
+      format: { type: 'string', enum: IMPORT_FORMATS },
+      dryRun: { type: 'boolean' },
+      total: { type: 'number' },
+      created: { type: 'number', description: 'Profiles created, or that would be created in a dry run' },
+      duplicates: { type: 'number' },
+      invalid: { type: 'number' },
+      rows: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            line: { type: 'number' },
+            email: { type: 'string' },
+            name: { type: 'string' },
+            track: { type: 'string' },
+            startDate: { type: 'string' },
+            status: { type: 'string', enum: ['created', 'would_create', 'duplicate', 'invalid'] },
+            errors: { type: 'array', items: { type: 'string' } },
+            warnings: { type: 'array', items: { type: 'string' } },
+          },
+          required: ['line', 'email', 'status', 'errors', 'warnings'],
+        },
+      },
+    },
+    required: ['format', 'dryRun', 'total', 'created', 'duplicates', 'invalid', 'rows'],
+  },
+  export_progress: {
+    type: 'object',
+    properties: {
+      format: { type: 'string', enum: ['csv', 'json', 'markdown'] },
+      filters: {
+        type: 'object',
+        properties: {
+          from: { type: 'string' },
+          to: { type: 'string' },
+          department: { type: 'string' },
+          buddyEmail: { type: 'string' },
+        },
+      },
+      employees: { type: 'number' },
+      rows: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            email: { type: 'string' },
+            name: { type: 'string' },
+            department: nullable('string'),
+            buddyEmail: nullable('string'),
+            track: { type: 'string' },
+            startDate: { type: 'string' },
+            onboardingStatus: { type: 'string', enum: ONBOARDING_STATUSES },
+            stepId: { type: 'number' },
+            stepTitle: { type: 'string' },
+            required: { type: 'boolean' },
+            stepStatus: { type: 'string', enum: STEP_STATUSES },
+            availableSince: nullable('string'),
+            completedAt: nullable('string'),
+            skippedAt: nullable('string'),
+            notes: nullable('string'),
+            daysToComplete: { ...nullable('number'), description: 'Days from availableSince to completedAt' },
+          },
+          required: ['email', 'name', 'track', 'startDate', 'onboardingStatus', 'stepId', 'stepTitle', 'stepStatus', 'completedAt', 'daysToComplete'],
+        },
+      },
+    },
+    required: ['format', 'filters', 'employees', 'rows'],
+  },
+  get_onboarding_analytics: {
+    type: 'object',
+    properties: {
+      filters: {
+        type: 'object',
+        properties: {
+          track: { type: 'string' },
+          department: { type: 'string' },
+          buddyEmail: { type: 'string' },
+          groupBy: { type: 'string', enum: ['cohort', 'department', 'none'] },
+        },
+      },
+      employees: { type: 'number' },
+      pendingExcluded: { type: 'number' },
+      statuses: {
+        type: 'object',
+        properties: {
+          not_started: { type: 'number' },
+          in_progress: { type: 'number' },
+          completed: { type: 'number' },
+        },
+      },
+      overall: ANALYTICS_GROUP_SCHEMA,
+      groups: { type: 'array', items: ANALYTICS_GROUP_SCHEMA },
+    },
+    required: ['filters', 'employees', 'pendingExcluded', 'statuses', 'overall', 'groups'],
+  },
+};
+
+/**
+ * Builds the structuredContent that accompanies each tool's text
+ */
+export class ToolOutput {
+  /**
+   * A tool result carrying both the chat text and its structured form
+   */
+  static result(text: string, structuredContent: Record<string, unknown>, isError = false) {
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text,
+        },
+      ],
+      structuredContent,
+      ...(isError ? { isError: true } : {}),
+    };
+  }
+
+  static step(step: OnboardingStep, profile?: EmployeeProfile): StepOutput {
+    const output: StepOutput = {
+      id: step.id,
+      title: step.title,
+      description: step.description,
+      type: step.type,
+      required: step.required,
+      estimatedTime: step.estimatedTime || null,
+      owner: step.owner || null,
+      tags: step.tags || [],
+      dependsOn: step.dependsOn || [],
+      resources: (step.resources || []).map(link => ResourceCatalog.resolveMarkdownLinks(link)),
+      completionCriteria: step.completionCriteria || null,
+    };
+    if (profile) {
+      output.status = this.stepStatus(profile, step.id);
+    }
+    return output;
+  }
+
+  static progress(summary: OnboardeeSummary): ProgressOutput {
+    const { profile } = summary;
+    return {
+      email: profile.email,
+      name: profile.name,
+      department: profile.department || null,
+      buddyEmail: profile.buddyEmail || null,
+      track: summary.track,
+      startDate: profile.startDate,
+      lastUpdated: profile.metadata.lastUpdated,
+      status: summary.status,
+      totalSteps: summary.totalSteps,
+      doneSteps: summary.doneSteps,
+      percentComplete: summary.percentComplete,
+      currentStep: summary.currentStep ? this.step(summary.currentStep, profile) : null,
+      availableSteps: summary.availableSteps.map(step => this.step(step, profile)),
+      completedSteps: profile.completedSteps,
+      skippedSteps: profile.skippedSteps || [],
+      deferredSteps: profile.deferredSteps || [],
+    };
+  }
+
+  static stepProgress(step: OnboardingStep, profile: EmployeeProfile): StepProgressOutput {
+    const data = profile.stepData[step.id] || {};
+    return {
+      ...this.step(step, profile),
+      completedAt: data.completedAt || null,
+      skippedAt: data.skippedAt || null,
+      skipReason: data.skipReason || null,
+      deferredAt: data.deferredAt || null,
+      deferReason: data.deferReason || null,
+    };
+  }
+
+  static stepStatus(profile: EmployeeProfile, stepId: number): StepStatus {
+    if (profile.completedSteps.includes(stepId)) {
+      return 'completed';
+    }
+    if (profile.skippedSteps?.includes(stepId)) {
+      return 'skipped';
+    }
+    if (profile.deferredSteps?.includes(stepId)) {
+      return 'deferred';
+    }
+    return profile.unlockedSteps?.includes(stepId) ? 'available' : 'locked';
+  }
+}
@@ -0,0 +1,179 @@
+import { after, before, beforeEach, test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import type { Caller } from '../src/utils/caller-auth.js';
+
+// Paths are read when the modules load, so everything points at a scratch directory first
+const root = await fs.mkdtemp(path.join(os.tmpdir(), 'onboarding-access-'));
+const configPath = path.join(root, 'config');
+const rolesFile = path.join(configPath, 'roles.json');
+const authFile = path.join(configPath, 'auth.json');
+const identityFile = path.join(root, 'identity.json');
+process.env.ONBOARDING_DATA_PATH = path.join(root, 'data');
+process.env.ONBOARDING_CONFIG_PATH = configPath;
+process.env.ONBOARDING_ROLES_FILE = rolesFile;
+process.env.ONBOARDING_AUTH_FILE = authFile;
+process.env.ONBOARDING_IDENTITY_FILE = identityFile;
+
+const { AccessDeniedError, AccessPolicy } = await import('../src/utils/access-policy.js');
+const { CallerAuth } = await import('../src/utils/caller-auth.js');
+const { EmployeeIdentifier } = await import('../src/utils/employee-identifier.js');
+
+const ROLES = {
+  admin: ['hr@contoso.com'],
+  manager: ['eve@contoso.com'],
+  buddy: ['sam@contoso.com'],
+};
+
+const caller = (email: string, role: Caller['role']): Caller => ({ email, role, method: 'token' });
+const ann = caller('ann@contoso.com', 'new_hire');
+const bob = caller('bob@contoso.com', 'new_hire');
+const sam = caller('sam@contoso.com', 'buddy');
+const eve = caller('eve@contoso.com', 'manager');
+const hr = caller('hr@contoso.com', 'admin');
+
+before(async () => {
+  await fs.mkdir(configPath, { recursive: true });
+  // Only the identity file, so the machine's git config or $USER can't identify anyone
+  await fs.writeFile(path.join(configPath, 'identity.json'), JSON.stringify({ sources: ['identityFile'] }));
+  // Bob has no role entry; the profile naming him as buddy is what gives him access
+  await EmployeeIdentifier.createNewProfile('ann@contoso.com', { name: 'Ann', buddyEmail: 'bob@contoso.com' });
+  await EmployeeIdentifier.createNewProfile('carl@contoso.com', { name: 'Carl', buddyEmail: 'sam@contoso.com' });
+});
+
+beforeEach(async () => {
+  await fs.writeFile(rolesFile, JSON.stringify(ROLES));
+  await fs.rm(identityFile, { force: true });
+  await fs.rm(authFile, { force: true });
+});
+
+after(async () => {
+  await fs.rm(root, { recursive: true, force: true });
+});
+
+test('open and unknown tools pass through untouched', async () => {
+  const args = { email: 'someone@contoso.com' };
+
+  assert.deepEqual(await AccessPolicy.scopeToolArguments('get_all_steps', args, ann), args);
+  assert.deepEqual(await AccessPolicy.scopeToolArguments('not_a_tool', args, ann), args);
+});
+
+test('new hires register themselves, and only admins register others', async () => {
+  assert.deepEqual(await AccessPolicy.scopeToolArguments('start_onboarding', {}, ann), { email: 'ann@contoso.com' });
+  assert.deepEqual(
+    await AccessPolicy.scopeToolArguments('register_employee', { email: 'Ann@Contoso.com' }, ann),
+    { email: 'Ann@Contoso.com' }
+  );
+
+  await assert.rejects(
+    AccessPolicy.scopeToolArguments('register_employee', { email: 'new@contoso.com' }, ann),
+    AccessDeniedError
+  );
+  await assert.doesNotReject(AccessPolicy.scopeToolArguments('register_employee', { email: 'new@contoso.com' }, hr));
+});
+
+test('employees view and progress their own profile by default', async () => {
+  assert.deepEqual(await AccessPolicy.scopeToolArguments('get_progress', {}, ann), { email: 'ann@contoso.com' });
+  assert.deepEqual(
+    await AccessPolicy.scopeToolArguments('complete_step', { stepId: 1 }, ann),
+    { stepId: 1, email: 'ann@contoso.com' }
+  );
+});
+
+test("new hires can't see or change someone else's profile", async () => {
+  await assert.rejects(
+    AccessPolicy.scopeToolArguments('get_progress', { email: 'carl@contoso.com' }, ann),
+    /ann@contoso.com \(role new_hire\) is not allowed to view the onboarding profile of carl@contoso.com/
+  );
+  await assert.rejects(
+    AccessPolicy.scopeToolArguments('complete_step', { email: 'carl@contoso.com' }, ann),
+    /not allowed to update/
+  );
+});
+
+test("the buddy named on a profile may view and progress it, with or without the buddy role", async () => {
+  await assert.doesNotReject(AccessPolicy.scopeToolArguments('get_progress', { email: 'ann@contoso.com' }, bob));
+  await assert.doesNotReject(AccessPolicy.scopeToolArguments('skip_step', { email: 'ANN@contoso.com' }, bob));
+  await assert.doesNotReject(AccessPolicy.scopeToolArguments('complete_step', { email: 'carl@contoso.com' }, sam));
+
+  // The buddy role alone doesn't open other buddies' mentees
+  await assert.rejects(AccessPolicy.scopeToolArguments('get_progress', { email: 'ann@contoso.com' }, sam), AccessDeniedError);
+});
+
+test('managers view every profile but only progress their own', async () => {
+  await assert.doesNotReject(AccessPolicy.scopeToolArguments('get_current_step', { email: 'ann@contoso.com' }, eve));
+  await assert.rejects(AccessPolicy.scopeToolArguments('complete_step', { email: 'ann@contoso.com' }, eve), AccessDeniedError);
+});
+
+test('dashboards are scoped to the caller below manager', async () => {
+  assert.deepEqual(await AccessPolicy.scopeToolArguments('list_onboardees', {}, bob), { buddyEmail: 'bob@contoso.com' });
+  assert.deepEqual(
+    await AccessPolicy.scopeToolArguments('export_progress', { buddyEmail: 'Sam@Contoso.com' }, sam),
+    { buddyEmail: 'sam@contoso.com' }
+  );
+  await assert.rejects(
+    AccessPolicy.scopeToolArguments('get_onboarding_analytics', { buddyEmail: 'sam@contoso.com' }, bob),
+    /Buddies only see their own onboardees, not those of sam@contoso.com/
+  );
+
+  assert.deepEqual(await AccessPolicy.scopeToolArguments('list_onboardees', {}, eve), {});
+  assert.deepEqual(
+    await AccessPolicy.scopeToolArguments('get_buddy_overview', {}, hr),
+    { buddyEmail: 'hr@contoso.com' }
+  );
+});
+
+test('admin tools are refused to everyone but admins', async () => {
+  for (const nonAdmin of [ann, bob, sam, eve]) {
+    await assert.rejects(
+      AccessPolicy.scopeToolArguments('merge_profiles', { sourceEmail: 'a@contoso.com' }, nonAdmin),
+      /Only admins can use merge_profiles/
+    );
+  }
+  await assert.doesNotReject(AccessPolicy.scopeToolArguments('import_employees', { content: '' }, hr));
+});
+
+test('local sessions are unrestricted without a roles file', async () => {
+  await fs.rm(rolesFile);
+
+  assert.equal(await AccessPolicy.getLocalCaller('merge_profiles', {}), undefined);
+});
+
+test('local sessions act as the employee identified on the machine', async () => {
+  await fs.writeFile(identityFile, JSON.stringify({ email: 'Eve@Contoso.com' }));
+
+  assert.deepEqual(await AccessPolicy.getLocalCaller('list_onboardees', {}), {
+    email: 'eve@contoso.com',
+    role: 'manager',
+    method: 'local',
+  });
+  // Open tools need no caller at all
+  assert.equal(await AccessPolicy.getLocalCaller('get_all_steps', {}), undefined);
+});
+
+test("an unidentified local caller is refused rather than trusted on the email they pass", async () => {
+  await assert.rejects(
+    AccessPolicy.getLocalCaller('start_onboarding', { email: 'hr@contoso.com' }),
+    (error: Error) => error instanceof AccessDeniedError && /can't tell who you are/.test(error.message)
+  );
+});
+
+test('bearer tokens get their role from roles.json only', async () => {
+  await fs.writeFile(authFile, JSON.stringify({
+    tokens: [
+      { email: 'eve@contoso.com', sha256: CallerAuth.hashToken('eve-token') },
+      { email: 'mia@contoso.com', sha256: CallerAuth.hashToken('mia-token') },
+    ],
+    // Not a source of roles; only roles.json is
+    admins: ['mia@contoso.com'],
+  }));
+
+  assert.deepEqual(
+    await CallerAuth.authenticate({ authorization: 'Bearer eve-token' }),
+    { email: 'eve@contoso.com', role: 'manager', method: 'token' }
+  );
+  assert.equal((await CallerAuth.authenticate({ authorization: 'Bearer mia-token' })).role, 'new_hire');
+  await assert.rejects(CallerAuth.authenticate({ authorization: 'Bearer wrong' }), /Unknown bearer token/);
+});
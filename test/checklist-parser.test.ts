@@ -0,0 +1,93 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ChecklistParser } from '../src/utils/checklist-parser.js';
+
+const MARKDOWN_STEP = `# Your First Pull Request
+
+## What You Need to Do:
+
+### 1. **Complete the First PR Course:**
+- [ ] Work through the interactive exercises
+- Read the written guide
+- [x] Watch the intro video (optional)
+
+### 2. **Open Your PR:**
+1. Pick a starter issue
+
+## This step is complete when:
+- Your pull request is merged
+`;
+
+test('plain Markdown bullets are tracked but not required', () => {
+  const items = ChecklistParser.parseMarkdown(MARKDOWN_STEP);
+
+  assert.deepEqual(items.map(item => [item.id, item.required]), [
+    ['complete-the-first-pr-course/work-through-the-interactive-exercises', true],
+    ['complete-the-first-pr-course/read-the-written-guide', false],
+    ['complete-the-first-pr-course/watch-the-intro-video-optional', false],
+    ['open-your-pr/pick-a-starter-issue', false],
+  ]);
+  assert.equal(items[0].section, 'Complete the First PR Course');
+});
+
+test('requireAll makes every bullet required except "(optional)" ones', () => {
+  const items = ChecklistParser.parseMarkdown(MARKDOWN_STEP, true);
+
+  assert.deepEqual(items.map(item => item.required), [true, true, false, true]);
+});
+
+test('only the "What You Need to Do" section becomes a checklist', () => {
+  assert.deepEqual(ChecklistParser.parseMarkdown('# Step\n\n- Just a bullet\n'), []);
+
+  const texts = ChecklistParser.parseMarkdown(MARKDOWN_STEP).map(item => item.text);
+  assert.ok(!texts.includes('Your pull request is merged'));
+});
+
+test('repeated items get unique IDs', () => {
+  const items = ChecklistParser.parseMarkdown('## What You Need to Do\n- [ ] Say hi\n- [ ] Say hi\n');
+
+  assert.deepEqual(items.map(item => item.id), ['say-hi', 'say-hi-2']);
+});
+
+test('HTML items are required only with a checkbox input', () => {
+  const items = ChecklistParser.parseHTML(`
+    <div class="instructions">
+      <ol>
+        <li>Set up your laptop
+          <ul>
+            <li><input type="checkbox"> Install the VPN client</li>
+            <li>Bookmark the <a href="/wiki">wiki</a></li>
+          </ul>
+        </li>
+      </ol>
+    </div>`);
+
+  assert.deepEqual(items.map(item => [item.id, item.required]), [
+    ['set-up-your-laptop/install-the-vpn-client', true],
+    ['set-up-your-laptop/bookmark-the-wiki', false],
+  ]);
+});
+
+test('data-checklist="required" opts a whole HTML list in', () => {
+  const items = ChecklistParser.parseHTML(`
+    <div class="instructions" data-checklist="required">
+      <ul>
+        <li>Request building access</li>
+        <li>Join the team channel (optional)</li>
+      </ul>
+    </div>`);
+
+  assert.deepEqual(items.map(item => item.required), [true, false]);
+});
+
+test('getPendingRequired ignores optional and checked-off items', () => {
+  const items = ChecklistParser.parseMarkdown(MARKDOWN_STEP, true);
+  const pending = ChecklistParser.getPendingRequired(items, {
+    'complete-the-first-pr-course/work-through-the-interactive-exercises': { completedAt: '2025-03-14T00:00:00.000Z' },
+  });
+
+  assert.deepEqual(pending.map(item => item.id), [
+    'complete-the-first-pr-course/read-the-written-guide',
+    'open-your-pr/pick-a-starter-issue',
+  ]);
+});
@@ -0,0 +1,37 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { CompletionCheck, CompletionChecker } from '../src/utils/completion-checks.js';
+
+const CHECKS: CompletionCheck[] = [
+  { type: 'data', field: 'prUrl', pattern: '^https://' },
+  { type: 'command', command: 'exit 3' },
+  { type: 'file', path: '/definitely/not/here' },
+];
+
+test('command and file checks run on the employee machine', async () => {
+  const results = await CompletionChecker.runChecks(CHECKS, { prUrl: 'https://example.com/pull/1' });
+
+  assert.deepEqual(results.map(result => [result.type, result.passed, result.skipped]), [
+    ['data', true, undefined],
+    ['command', false, undefined],
+    ['file', false, undefined],
+  ]);
+  assert.equal(results[1].message, '`exit 3` exited with code 3');
+});
+
+test('a shared server skips command and file checks as not verified instead of failing them', async () => {
+  const results = await CompletionChecker.runChecks(CHECKS, { prUrl: 'not a url' }, { onEmployeeMachine: false });
+
+  assert.deepEqual(results.map(result => [result.type, result.passed, result.skipped]), [
+    ['data', false, undefined],
+    ['command', true, true],
+    ['file', true, true],
+  ]);
+  assert.match(results[1].message, /^Not verified: command checks only run on a local \(stdio\) server/);
+});
+
+test('data: null fails data checks instead of throwing', async () => {
+  const results = await CompletionChecker.runChecks([CHECKS[0]], null);
+
+  assert.deepEqual(results.map(result => [result.passed, result.message]), [[false, 'Missing data field "prUrl"']]);
+});
@@ -0,0 +1,113 @@
+import { after, test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+
+// Paths are read when the modules load: the repo's own steps, and profiles in a scratch directory
+const dataPath = await fs.mkdtemp(path.join(os.tmpdir(), 'onboarding-import-'));
+process.env.ONBOARDING_DATA_PATH = dataPath;
+process.env.ONBOARDING_CONFIG_PATH = fileURLToPath(new URL('../../config', import.meta.url));
+
+const { EmployeeImporter } = await import('../src/utils/employee-importer.js');
+const { EmployeeIdentifier } = await import('../src/utils/employee-identifier.js');
+
+const NOW = new Date('2025-03-10T12:00:00.000Z');
+
+after(async () => {
+  await fs.rm(dataPath, { recursive: true, force: true });
+});
+
+test('CSV fields may be quoted, with commas, doubled quotes and newlines', async () => {
+  const csv = [
+    'Email,Full Name,Buddy,Dept,Start Date',
+    'ann@contoso.com,"Lee, Ann",bob@contoso.com,Engineering,2025-03-17',
+    '"dan@contoso.com","Dan ""DJ"" Jones",,Product,2025-03-24',
+    'eve@contoso.com,"Eve',
+    'Smith",,,2025-04-01',
+  ].join('\r\n');
+
+  const report = await EmployeeImporter.import(csv, { dryRun: true, now: NOW });
+
+  assert.equal(report.format, 'csv');
+  assert.deepEqual(report.rows.map(row => [row.line, row.email, row.name, row.track, row.status]), [
+    [2, 'ann@contoso.com', 'Lee, Ann', 'backend', 'would_create'],
+    [3, 'dan@contoso.com', 'Dan "DJ" Jones', 'pm', 'would_create'],
+    [4, 'eve@contoso.com', 'Eve\r\nSmith', 'base', 'would_create'],
+  ]);
+  assert.equal(report.rows[0].startDate, '2025-03-17T00:00:00.000Z');
+});
+
+test('a dry run saves nothing', async () => {
+  await EmployeeImporter.import('email,name,startDate\nfay@contoso.com,Fay,2025-03-17\n', { dryRun: true, now: NOW });
+
+  assert.equal(await EmployeeIdentifier.findEmployeeProfile('fay@contoso.com'), null);
+});
+
+test('invalid rows are reported with every problem and not created', async () => {
+  const csv = [
+    'email,name,buddyEmail,track,startDate',
+    'not-an-email,Gus,,,2025-03-17',
+    'hal@contoso.com,,hal@contoso.com,,2025-03-17',
+    'ida@contoso.com,Ida,,nope,2025-03-17',
+    'jo@contoso.com,Jo,,,2025-03-01',
+    'kim@contoso.com,Kim,,,next monday',
+  ].join('\n');
+
+  const report = await EmployeeImporter.import(csv, { now: NOW });
+
+  assert.equal(report.invalid, 5);
+  assert.equal(report.created, 0);
+  assert.deepEqual(report.rows.map(row => row.errors), [
+    ['"not-an-email" is not a valid email'],
+    ['name is missing', 'an employee cannot be their own buddy'],
+    ['Unknown onboarding track "nope". Available tracks: base, backend, pm'],
+    ['startDate 2025-03-01 is in the past; use register_employee for people who have already started'],
+    ['startDate "next monday" is not a date (use YYYY-MM-DD)'],
+  ]);
+  assert.equal(await EmployeeIdentifier.findEmployeeProfile('hal@contoso.com'), null);
+});
+
+test('creates pending profiles and skips emails repeated in the file or already registered', async () => {
+  await EmployeeIdentifier.createNewProfile('liz@contoso.com', { name: 'Liz' });
+  const csv = [
+    'email,name,startDate',
+    'max@contoso.com,Max,2025-03-17',
+    'MAX@contoso.com,Max Again,2025-03-18',
+    'liz@contoso.com,Liz,2025-03-17',
+  ].join('\n');
+
+  const report = await EmployeeImporter.import(csv, { now: NOW });
+
+  assert.deepEqual(report.rows.map(row => [row.status, row.errors]), [
+    ['created', []],
+    ['duplicate', ['Same email as line 2']],
+    ['duplicate', ['A profile for liz@contoso.com already exists']],
+  ]);
+  const max = await EmployeeIdentifier.findEmployeeProfile('max@contoso.com');
+  assert.equal(max!.startDate, '2025-03-17T00:00:00.000Z');
+  assert.deepEqual(max!.history!.map(event => event.type), ['imported', 'started']);
+});
+
+test('warns about emails one typo away from an existing profile', async () => {
+  await EmployeeIdentifier.createNewProfile('nina@contoso.com', { name: 'Nina' });
+
+  const report = await EmployeeImporter.import('email,name,startDate\nnino@contoso.com,Nino,2025-03-17\n', { dryRun: true, now: NOW });
+
+  assert.equal(report.rows[0].status, 'would_create');
+  assert.deepEqual(report.rows[0].warnings, ["Close to existing profile nina@contoso.com; check this isn't the same person"]);
+});
+
+test('CSV without an email column, or with an open quote, is rejected as a whole', async () => {
+  await assert.rejects(EmployeeImporter.import('name,startDate\nOla,2025-03-17\n', { now: NOW }), /needs a header row with an "email" column/);
+  await assert.rejects(EmployeeImporter.import('email,name\n"pia@contoso.com,Pia\n', { now: NOW }), /unterminated quoted field starting on line 2/);
+});
+
+test('JSON rosters use the same column names', async () => {
+  const json = JSON.stringify({ employees: [{ email: 'quinn@contoso.com', full_name: 'Quinn', start: '2025-03-17' }] });
+
+  assert.equal(EmployeeImporter.detectFormat(json), 'json');
+  const report = await EmployeeImporter.import(json, { dryRun: true, now: NOW });
+  assert.deepEqual(report.rows.map(row => [row.line, row.email, row.name, row.status]), [[1, 'quinn@contoso.com', 'Quinn', 'would_create']]);
+});
@@ -0,0 +1,63 @@
+import { after, before, test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+
+// Paths are read when the modules load; git reads only the scratch global config
+const root = await fs.mkdtemp(path.join(os.tmpdir(), 'onboarding-identity-'));
+const configPath = path.join(root, 'config');
+const gitConfig = path.join(root, 'gitconfig');
+process.env.ONBOARDING_CONFIG_PATH = configPath;
+process.env.GIT_CONFIG_GLOBAL = gitConfig;
+process.env.GIT_CONFIG_NOSYSTEM = '1';
+
+const { IdentityResolver } = await import('../src/utils/identity-resolver.js');
+
+const originalCwd = process.cwd();
+
+async function writeIdentityConfig(corporateDomains: string[]): Promise<void> {
+  await fs.writeFile(path.join(configPath, 'identity.json'), JSON.stringify({ sources: ['git'], corporateDomains }));
+}
+
+before(async () => {
+  await fs.mkdir(configPath, { recursive: true });
+  await fs.writeFile(gitConfig, '[user]\n\temail = Ann.Lee@Contoso.com\n');
+  // Outside any repository, so no repo-local user.email applies
+  process.chdir(root);
+});
+
+after(async () => {
+  process.chdir(originalCwd);
+  await fs.rm(root, { recursive: true, force: true });
+});
+
+test('without corporateDomains a git email is an unconfirmed guess, not an identity', async () => {
+  await writeIdentityConfig([]);
+
+  const resolution = await IdentityResolver.resolve();
+
+  assert.equal(resolution.status, 'ambiguous');
+  assert.equal(resolution.email, undefined);
+  assert.deepEqual(resolution.candidates.map(candidate => [candidate.email, candidate.confidence]), [['ann.lee@contoso.com', 'low']]);
+  assert.match(IdentityResolver.formatPrompt(resolution), /no corporateDomains configured/);
+});
+
+test('a git email in a corporate domain identifies the employee', async () => {
+  await writeIdentityConfig(['contoso.com']);
+
+  const resolution = await IdentityResolver.resolve();
+
+  assert.equal(resolution.status, 'resolved');
+  assert.equal(resolution.email, 'ann.lee@contoso.com');
+  assert.equal(resolution.chosen!.confidence, 'medium');
+});
+
+test('a git email outside the corporate domains stays unconfirmed', async () => {
+  await writeIdentityConfig(['fabrikam.com']);
+
+  const resolution = await IdentityResolver.resolve();
+
+  assert.equal(resolution.status, 'ambiguous');
+  assert.equal(resolution.candidates[0].confidence, 'low');
+});
@@ -0,0 +1,155 @@
+import { after, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import type { EmployeeProfile } from '../src/utils/employee-identifier.js';
+import {
+  ProfileConflictError,
+  ProfileExistsError,
+  ProfileStore,
+  ProfileStores,
+  STORAGE_KINDS,
+} from '../src/utils/profile-store.js';
+
+const tempDirs: string[] = [];
+
+after(async () => {
+  for (const dir of tempDirs) {
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+});
+
+async function openStore(kind: typeof STORAGE_KINDS[number]): Promise<ProfileStore> {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), `onboarding-${kind}-`));
+  tempDirs.push(dir);
+  return ProfileStores.open(kind, dir);
+}
+
+function makeProfile(email: string, revision = 0): EmployeeProfile {
+  return {
+    email,
+    name: 'Ann Lee',
+    startDate: '2025-03-14T00:00:00.000Z',
+    currentStep: 1,
+    completedSteps: [],
+    stepData: {},
+    metadata: {
+      createdAt: '2025-03-14T00:00:00.000Z',
+      lastUpdated: '2025-03-14T00:00:00.000Z',
+      version: '1.0',
+      revision,
+    },
+  };
+}
+
+for (const kind of STORAGE_KINDS) {
+  describe(`${kind} profile store`, () => {
+    test('saves when the expected revision matches', async () => {
+      const store = await openStore(kind);
+      await store.save(makeProfile('ann@contoso.com', 0));
+
+      await store.save({ ...makeProfile('ann@contoso.com', 1), completedSteps: [1] }, 0);
+
+      const stored = await store.get('ann@contoso.com');
+      assert.equal(ProfileStores.getRevision(stored), 1);
+      assert.deepEqual(stored!.completedSteps, [1]);
+      await store.close();
+    });
+
+    test('rejects a save based on a stale revision and keeps the stored profile', async () => {
+      const store = await openStore(kind);
+      await store.save(makeProfile('ann@contoso.com', 0));
+      await store.save({ ...makeProfile('ann@contoso.com', 1), completedSteps: [1] }, 0);
+
+      // A second session still holding revision 0
+      await assert.rejects(
+        store.save({ ...makeProfile('ann@contoso.com', 1), completedSteps: [2] }, 0),
+        (error: Error) => error instanceof ProfileConflictError && /revision 1, expected 0/.test(error.message)
+      );
+
+      assert.deepEqual((await store.get('ann@contoso.com'))!.completedSteps, [1]);
+      await store.close();
+    });
+
+    test('saves without an expected revision replace whatever is stored', async () => {
+      const store = await openStore(kind);
+      await store.save(makeProfile('ann@contoso.com', 5));
+
+      await store.save(makeProfile('ann@contoso.com', 0));
+
+      assert.equal(ProfileStores.getRevision(await store.get('ann@contoso.com')), 0);
+      await store.close();
+    });
+
+    test('create refuses to replace an existing profile', async () => {
+      const store = await openStore(kind);
+      await store.create(makeProfile('ann@contoso.com'));
+
+      await assert.rejects(
+        store.create({ ...makeProfile('ann@contoso.com'), name: 'Someone Else' }),
+        ProfileExistsError
+      );
+
+      assert.equal((await store.get('ann@contoso.com'))!.name, 'Ann Lee');
+      await store.close();
+    });
+
+    test('deleting a missing profile says so', async () => {
+      const store = await openStore(kind);
+
+      await assert.rejects(store.delete('nobody@contoso.com'), /^Error: No onboarding profile found for nobody@contoso.com\.$/);
+      await store.close();
+    });
+
+    test('only one of several simultaneous creates succeeds', async () => {
+      const store = await openStore(kind);
+
+      const results = await Promise.allSettled(
+        ['First', 'Second', 'Third'].map(name => store.create({ ...makeProfile('ann@contoso.com'), name }))
+      );
+
+      assert.equal(results.filter(result => result.status === 'fulfilled').length, 1);
+      for (const result of results) {
+        if (result.status === 'rejected') {
+          assert.ok(result.reason instanceof ProfileExistsError);
+        }
+      }
+      assert.equal((await store.list()).length, 1);
+      await store.close();
+    });
+  });
+}
+
+describe('EmployeeIdentifier.saveEmployeeProfile', async () => {
+  const dataPath = await fs.mkdtemp(path.join(os.tmpdir(), 'onboarding-identifier-'));
+  tempDirs.push(dataPath);
+  // The data path is read when the module loads
+  process.env.ONBOARDING_DATA_PATH = dataPath;
+  const { EmployeeIdentifier } = await import('../src/utils/employee-identifier.js');
+
+  test('bumps the revision and fails for a copy loaded before another save', async () => {
+    await EmployeeIdentifier.createNewProfile('Bob@Contoso.com', { name: 'Bob' });
+    const first = (await EmployeeIdentifier.findEmployeeProfile('bob@contoso.com'))!;
+    const second = (await EmployeeIdentifier.findEmployeeProfile('bob@contoso.com'))!;
+
+    first.completedSteps.push(1);
+    await EmployeeIdentifier.saveEmployeeProfile(first);
+    assert.equal(first.metadata.revision, 1);
+
+    second.completedSteps.push(2);
+    await assert.rejects(EmployeeIdentifier.saveEmployeeProfile(second), ProfileConflictError);
+    // A failed save leaves the in-memory revision alone, so a reload-and-retry works
+    assert.equal(second.metadata.revision, 0);
+    assert.deepEqual((await EmployeeIdentifier.findEmployeeProfile('bob@contoso.com'))!.completedSteps, [1]);
+  });
+
+  test('createNewProfile reports an existing profile whatever the email casing', async () => {
+    await EmployeeIdentifier.createNewProfile('carol@contoso.com');
+
+    await assert.rejects(
+      EmployeeIdentifier.createNewProfile(' Carol@Contoso.COM '),
+      /An onboarding profile for carol@contoso.com already exists/
+    );
+  });
+});
@@ -0,0 +1,46 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { fileURLToPath } from 'url';
+import type { EmployeeProfile } from '../src/utils/employee-identifier.js';
+
+// The config path is read when the module loads: use the repo's own steps
+process.env.ONBOARDING_CONFIG_PATH = fileURLToPath(new URL('../../config', import.meta.url));
+
+const { StallDetector } = await import('../src/utils/stall-detector.js');
+
+function makeProfile(email: string, startDate: string): EmployeeProfile {
+  return {
+    email,
+    name: email.split('@')[0],
+    startDate,
+    currentStep: 1,
+    completedSteps: [],
+    stepData: {},
+    metadata: { createdAt: startDate, lastUpdated: startDate, version: '1.0', revision: 0 },
+  };
+}
+
+test('status and time on step are both judged at the given time', async () => {
+  // Both start dates are still ahead on the real clock
+  const profiles = [
+    makeProfile('early@contoso.com', '2030-01-06T00:00:00.000Z'),
+    makeProfile('later@contoso.com', '2030-06-01T00:00:00.000Z'),
+  ];
+
+  const stalled = await StallDetector.findStalled(profiles, { now: new Date('2030-05-01T00:00:00.000Z') });
+
+  // The later hire is still pending at that time, so only the early one can be stalled
+  assert.deepEqual(stalled.map(entry => [entry.summary.profile.email, entry.summary.status, entry.step.id]), [
+    ['early@contoso.com', 'not_started', 2],
+  ]);
+  assert.equal(Math.round(stalled[0].daysOnStep), 115);
+});
+
+test('someone with only optional steps left is not stalled', async () => {
+  const profile = makeProfile('opt@contoso.com', '2030-01-06T00:00:00.000Z');
+  profile.completedSteps = [2, 3];
+
+  const stalled = await StallDetector.findStalled([profile], { now: new Date('2030-05-01T00:00:00.000Z') });
+
+  assert.deepEqual(stalled, []);
+});
@@ -0,0 +1,28 @@
+import { after, test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { OnboardingStep } from '../src/utils/config-parser.js';
+import { ToolOutput } from '../src/utils/tool-output.js';
+
+after(() => {
+  delete process.env.ONBOARDING_RESOURCE_BASE_URL;
+});
+
+test('step resources resolve relative links against the resource base URL', () => {
+  process.env.ONBOARDING_RESOURCE_BASE_URL = 'https://wiki.contoso.com/docs';
+  const step: OnboardingStep = {
+    id: 1,
+    title: 'Set up git',
+    description: 'Configure git',
+    type: 'setup',
+    required: true,
+    content: '',
+    isMarkdown: true,
+    resources: ['[Git guide](/wiki/git-best-practices)', '[GitHub](https://github.com)', '[Below](#checks)'],
+  };
+
+  assert.deepEqual(ToolOutput.step(step).resources, [
+    '[Git guide](https://wiki.contoso.com/docs/wiki/git-best-practices)',
+    '[GitHub](https://github.com)',
+    '[Below](#checks)',
+  ]);
+});